@@ -0,0 +1,170 @@
+import * as vscode from 'vscode';
+import { DOMVisualizerProvider, Dependency, DomTreeItem, selectedElement } from './TreeDataProvider';
+import { removeAttributeEdits, setAttributeEdits } from './DomEdits';
+import { applyTextEdits } from './DomEditCommands';
+import { SnapshotStore } from './SnapshotStore';
+
+/**
+ * Lists the attributes of the element selected in the DOM Visualizer
+ */
+export class AttributeInspectorProvider implements vscode.TreeDataProvider<AttributeItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<AttributeItem | undefined | null | void> = new vscode.EventEmitter<AttributeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<AttributeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  // The element is tracked by position in its document so it survives the re-parse after each edit
+  private elementPath: { documentUri: vscode.Uri; path: number[] } | undefined;
+
+  constructor(private domProvider: DOMVisualizerProvider) {
+    domProvider.onDidChangeTreeData(() => this.refresh());
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * The inspected element as of the latest parse
+   */
+  get element(): Dependency | undefined {
+    const elementPath = this.elementPath;
+    return elementPath ? this.domProvider.findItemByIndexPath(elementPath.documentUri, elementPath.path) : undefined;
+  }
+
+  setElement(item: Dependency | undefined): void {
+    this.elementPath = item ? { documentUri: item.documentUri, path: this.domProvider.indexPathOf(item) } : undefined;
+    this.refresh();
+  }
+
+  getTreeItem(element: AttributeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: AttributeItem): Thenable<AttributeItem[]> {
+    const inspected = this.element;
+    if (element || !inspected) {
+      return Promise.resolve([]);
+    }
+    return Promise.resolve(
+      Object.entries(inspected.attributes).map(([name, value]) => new AttributeItem(name, value))
+    );
+  }
+}
+
+export class AttributeItem extends vscode.TreeItem {
+  constructor(
+    public readonly name: string,
+    public readonly value: string
+  ) {
+    super(name, vscode.TreeItemCollapsibleState.None);
+    this.description = value;
+    this.tooltip = `${name}="${value}"`;
+    this.contextValue = 'domAttribute';
+    this.iconPath = new vscode.ThemeIcon('symbol-property');
+    this.command = {
+      command: 'helloworld.editDomAttribute',
+      title: 'Edit Attribute Value',
+      arguments: [this]
+    };
+  }
+}
+
+/**
+ * Register the attribute inspector view next to the DOM Visualizer, together with its editing commands
+ */
+export function registerAttributeInspector(
+  context: vscode.ExtensionContext,
+  domProvider: DOMVisualizerProvider,
+  domTreeView: vscode.TreeView<DomTreeItem>,
+  snapshots: SnapshotStore
+) {
+  const inspector = new AttributeInspectorProvider(domProvider);
+  const inspectorView = vscode.window.createTreeView('domAttributes', { treeDataProvider: inspector });
+  context.subscriptions.push(inspectorView);
+
+  const updateView = () => {
+    const element = inspector.element;
+    inspectorView.description = element ? String(element.label) : undefined;
+    inspectorView.message = element ? undefined : 'Select an element in the DOM Visualizer to inspect its attributes.';
+  };
+  updateView();
+
+  context.subscriptions.push(
+    domTreeView.onDidChangeSelection(() => {
+      inspector.setElement(selectedElement(domTreeView));
+      updateView();
+    }),
+    inspector.onDidChangeTreeData(updateView),
+    domProvider.onDidChangeDocument(() => {
+      // Other folders' documents stay in the tree, so only forget elements whose document is gone
+      const element = inspector.element;
+      if (!element || !domProvider.isShowing(element.documentUri)) {
+        inspector.setElement(undefined);
+      }
+      updateView();
+    })
+  );
+
+  const writeAttribute = async (name: string, value: string | undefined) => {
+    const element = inspector.element;
+    const model = element && domProvider.getModel(element.documentUri);
+    if (!element || !model) {
+      vscode.window.showErrorMessage('Select an element in the DOM Visualizer first.');
+      return;
+    }
+
+    const edits = value === undefined
+      ? removeAttributeEdits(model, element.node, name)
+      : setAttributeEdits(model, element.node, name, value);
+    if (!edits) {
+      vscode.window.showErrorMessage(`The element has no "${name}" attribute.`);
+      return;
+    }
+
+    try {
+      const label = value === undefined ? `Before removing the ${name} attribute` : `Before setting the ${name} attribute`;
+      await applyTextEdits(domProvider, snapshots, element.documentUri, edits, label);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error updating attribute: ${error}`);
+    }
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('helloworld.addDomAttribute', async () => {
+      if (!inspector.element) {
+        vscode.window.showErrorMessage('Select an element in the DOM Visualizer first.');
+        return;
+      }
+
+      const name = await vscode.window.showInputBox({
+        prompt: 'Attribute name',
+        placeHolder: 'e.g. data-role, aria-label, title',
+        validateInput: (input) => /^[^\s"'>\/=]+$/.test(input) ? undefined : 'Enter a valid attribute name.'
+      });
+      if (!name) {
+        return;
+      }
+
+      const value = await vscode.window.showInputBox({ prompt: `Value for ${name}`, value: '' });
+      if (value !== undefined) {
+        await writeAttribute(name, value);
+      }
+    }),
+
+    vscode.commands.registerCommand('helloworld.editDomAttribute', async (item?: AttributeItem) => {
+      if (!item) {
+        return;
+      }
+
+      const value = await vscode.window.showInputBox({ prompt: `Value for ${item.name}`, value: item.value });
+      if (value !== undefined && value !== item.value) {
+        await writeAttribute(item.name, value);
+      }
+    }),
+
+    vscode.commands.registerCommand('helloworld.removeDomAttribute', async (item?: AttributeItem) => {
+      if (item) {
+        await writeAttribute(item.name, undefined);
+      }
+    })
+  );
+}
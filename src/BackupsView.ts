@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Snapshot, fileKeyOf } from './Snapshots';
+import { SnapshotStore } from './SnapshotStore';
+
+export const SNAPSHOT_SCHEME = 'who-am-i-backup';
+
+export type BackupTreeItem = BackupFileItem | SnapshotItem;
+
+/**
+ * Lists every backed-up file with its snapshots, newest first
+ */
+export class BackupsProvider implements vscode.TreeDataProvider<BackupTreeItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<BackupTreeItem | undefined | null | void> = new vscode.EventEmitter<BackupTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<BackupTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  constructor(private store: SnapshotStore) {
+    store.onDidChange(() => this.refresh());
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: BackupTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: BackupTreeItem): Promise<BackupTreeItem[]> {
+    if (element instanceof SnapshotItem) {
+      return [];
+    }
+    if (element) {
+      return element.snapshots.map(snapshot => new SnapshotItem(snapshot, this.store.fileUriOf(snapshot)));
+    }
+
+    const files = new Map<string, Snapshot[]>();
+    for (const snapshot of await this.store.list()) {
+      const key = fileKeyOf(snapshot);
+      files.set(key, [...(files.get(key) || []), snapshot]);
+    }
+    return [...files.values()]
+      .map(snapshots => new BackupFileItem(this.store.fileUriOf(snapshots[0]), snapshots))
+      .sort((a, b) => String(a.label).localeCompare(String(b.label)));
+  }
+}
+
+export class BackupFileItem extends vscode.TreeItem {
+  constructor(
+    public readonly fileUri: vscode.Uri,
+    public readonly snapshots: Snapshot[]
+  ) {
+    super(vscode.workspace.asRelativePath(fileUri, (vscode.workspace.workspaceFolders?.length || 0) > 1), vscode.TreeItemCollapsibleState.Collapsed);
+    this.resourceUri = fileUri;
+    this.description = `${snapshots.length} backup${snapshots.length === 1 ? '' : 's'}`;
+    this.contextValue = 'whoAmIBackupFile';
+  }
+}
+
+export class SnapshotItem extends vscode.TreeItem {
+  constructor(
+    public readonly snapshot: Snapshot,
+    public readonly fileUri: vscode.Uri
+  ) {
+    super(snapshot.label || 'Backup', vscode.TreeItemCollapsibleState.None);
+    this.description = new Date(snapshot.timestamp).toLocaleString();
+    this.tooltip = `${snapshot.relativePath}\n${this.description} · ${Math.round(snapshot.size / 1024 * 100) / 100} KB\nSHA-256 ${snapshot.hash.substring(0, 12)}`;
+    // HTML backups can also be compared element by element
+    this.contextValue = /\.html?$/i.test(snapshot.relativePath) ? 'whoAmIHtmlSnapshot' : 'whoAmISnapshot';
+    this.iconPath = new vscode.ThemeIcon('history');
+    this.command = {
+      command: 'helloworld.openSnapshot',
+      title: 'Open Backup',
+      arguments: [this]
+    };
+  }
+}
+
+/**
+ * Serves snapshot contents as read-only documents. The path keeps the file name so the document gets
+ * the right language; the query names the snapshot.
+ */
+class SnapshotContentProvider implements vscode.TextDocumentContentProvider {
+  constructor(private store: SnapshotStore) {}
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const snapshot = await this.store.find(uri.query);
+    if (!snapshot) {
+      throw new Error(`The backup ${uri.query} no longer exists.`);
+    }
+    return this.store.getContent(snapshot);
+  }
+}
+
+export function snapshotUri(snapshot: Snapshot): vscode.Uri {
+  return vscode.Uri.from({ scheme: SNAPSHOT_SCHEME, path: `/${snapshot.relativePath.replace(/^\/+/, '')}`, query: snapshot.id });
+}
+
+/**
+ * Replace the file's content with the snapshot's, after snapshotting the current content so the restore
+ * can be reverted the same way. Returns the snapshot taken before the restore.
+ */
+export async function restoreSnapshot(store: SnapshotStore, snapshot: Snapshot): Promise<Snapshot | undefined> {
+  const fileUri = store.fileUriOf(snapshot);
+  const content = await store.getContent(snapshot);
+  const document = await vscode.workspace.openTextDocument(fileUri);
+  const beforeRestore = await store.takeSnapshot(fileUri, document.getText(), `Before restoring "${snapshot.label || 'Backup'}"`);
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(fileUri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), content);
+  if (!await vscode.workspace.applyEdit(edit)) {
+    vscode.window.showErrorMessage(`Failed to restore ${path.basename(fileUri.fsPath)}.`);
+    return undefined;
+  }
+  await document.save();
+  return beforeRestore;
+}
+
+/**
+ * Register the "Who Am I Backups" view and the actions on its snapshots
+ */
+export function registerBackupsView(context: vscode.ExtensionContext, store: SnapshotStore) {
+  const provider = new BackupsProvider(store);
+  context.subscriptions.push(
+    vscode.window.createTreeView('whoAmIBackups', { treeDataProvider: provider }),
+    vscode.workspace.registerTextDocumentContentProvider(SNAPSHOT_SCHEME, new SnapshotContentProvider(store))
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('helloworld.openSnapshot', async (item?: SnapshotItem) => {
+      if (!item) {
+        return;
+      }
+      try {
+        await vscode.window.showTextDocument(snapshotUri(item.snapshot), { preview: true });
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to open backup: ${error}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('helloworld.diffSnapshot', async (item?: SnapshotItem) => {
+      if (!item) {
+        return;
+      }
+      const fileName = path.basename(item.fileUri.fsPath);
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        snapshotUri(item.snapshot),
+        item.fileUri,
+        `${fileName} (${item.snapshot.label || 'Backup'}) ↔ Current`
+      );
+    }),
+
+    vscode.commands.registerCommand('helloworld.restoreSnapshot', async (item?: SnapshotItem) => {
+      if (!item) {
+        return;
+      }
+      const fileName = path.basename(item.fileUri.fsPath);
+      const result = await vscode.window.showWarningMessage(
+        `Replace the content of ${fileName} with the backup "${item.snapshot.label || 'Backup'}" from ${item.description}? The current content is backed up first.`,
+        { modal: true },
+        'Restore'
+      );
+      if (result !== 'Restore') {
+        return;
+      }
+
+      try {
+        const beforeRestore = await restoreSnapshot(store, item.snapshot);
+        if (!beforeRestore) {
+          return;
+        }
+        const undo = await vscode.window.showInformationMessage(`${fileName} has been restored.`, 'Undo Restore');
+        if (undo === 'Undo Restore') {
+          await restoreSnapshot(store, beforeRestore);
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Error restoring backup: ${error}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('helloworld.deleteSnapshot', async (item?: SnapshotItem) => {
+      if (!item) {
+        return;
+      }
+      const result = await vscode.window.showWarningMessage(
+        `Delete the backup "${item.snapshot.label || 'Backup'}" of ${path.basename(item.fileUri.fsPath)} from ${item.description}?`,
+        { modal: true },
+        'Delete'
+      );
+      if (result !== 'Delete') {
+        return;
+      }
+
+      try {
+        await store.delete([item.snapshot]);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Error deleting backup: ${error}`);
+      }
+    })
+  );
+}
@@ -0,0 +1,302 @@
+import { HtmlDocumentModel, HtmlElementNode } from './HtmlDocumentModel';
+import { TextEdit, indentationAt, insertElementEdits, reindent } from './DomEdits';
+
+export type DomDiffStatus = 'unchanged' | 'added' | 'removed' | 'moved' | 'changed';
+
+/**
+ * An element of either document, placed where it is in the current document; removed elements are placed
+ * where they were relative to their old siblings
+ */
+export interface DomDiffNode {
+  status: DomDiffStatus;
+  /** The element in the backup, undefined for added elements */
+  backup: HtmlElementNode | undefined;
+  /** The element in the current document, undefined for removed elements */
+  current: HtmlElementNode | undefined;
+  /** Attributes added, removed or given another value since the backup */
+  changedAttributes: string[];
+  /** Whether the element's own text changed, ignoring whitespace */
+  textChanged: boolean;
+  /** Whether the element or one of its descendants differs from the backup */
+  hasChanges: boolean;
+  parent: DomDiffNode | undefined;
+  children: DomDiffNode[];
+}
+
+/**
+ * Compare two versions of a document element by element, ignoring indentation and other whitespace.
+ * Elements are matched by unique id first, then in order among the children of matched parents by
+ * tag and class, then by tag alone. An element matched under another parent, or out of order among its
+ * siblings, counts as moved.
+ */
+export function diffDocuments(backup: HtmlDocumentModel, current: HtmlDocumentModel): DomDiffNode[] {
+  const matches = matchElements(backup, current);
+  const backupByCurrent = new Map<HtmlElementNode, HtmlElementNode>();
+  for (const [backupNode, currentNode] of matches) {
+    backupByCurrent.set(currentNode, backupNode);
+  }
+  const moved = findMovedElements(backup, current, matches, backupByCurrent);
+
+  const buildRemoved = (node: HtmlElementNode, parent: DomDiffNode | undefined): DomDiffNode => {
+    const diffNode = createNode('removed', node, undefined, parent);
+    // Matched descendants live on in the current document and are shown there
+    diffNode.children = node.children.filter(child => !matches.has(child)).map(child => buildRemoved(child, diffNode));
+    return diffNode;
+  };
+
+  const buildChildren = (
+    backupChildren: HtmlElementNode[],
+    currentChildren: HtmlElementNode[],
+    currentParent: HtmlElementNode | undefined,
+    parent: DomDiffNode | undefined
+  ): DomDiffNode[] => {
+    const children = currentChildren.map(child => buildCurrent(child, parent));
+    let insertAt = 0;
+    for (const backupChild of backupChildren) {
+      const match = matches.get(backupChild);
+      if (!match) {
+        children.splice(insertAt++, 0, buildRemoved(backupChild, parent));
+      } else if (match.parent === currentParent) {
+        insertAt = children.findIndex(child => child.current === match) + 1;
+      }
+    }
+    return children;
+  };
+
+  const buildCurrent = (node: HtmlElementNode, parent: DomDiffNode | undefined): DomDiffNode => {
+    const backupNode = backupByCurrent.get(node);
+    const diffNode = createNode('added', backupNode, node, parent);
+    if (backupNode) {
+      diffNode.changedAttributes = changedAttributes(backupNode, node);
+      diffNode.textChanged = ownText(backupNode) !== ownText(node);
+      diffNode.status = moved.has(node)
+        ? 'moved'
+        : diffNode.changedAttributes.length > 0 || diffNode.textChanged ? 'changed' : 'unchanged';
+    }
+    diffNode.children = buildChildren(backupNode ? backupNode.children : [], node.children, node, diffNode);
+    return diffNode;
+  };
+
+  const roots = buildChildren(backup.roots, current.roots, undefined, undefined);
+  roots.forEach(markChanges);
+  return roots;
+}
+
+/**
+ * Bring the element back as it was in the backup. Removed elements are inserted next to their nearest
+ * sibling that still exists, or into their parent; other elements are replaced by their backup version.
+ * Returns undefined when there is nowhere to put the element, i.e. its parent was removed as well.
+ */
+export function restoreElementEdits(
+  backup: HtmlDocumentModel,
+  current: HtmlDocumentModel,
+  node: DomDiffNode
+): TextEdit[] | undefined {
+  if (!node.backup) {
+    return undefined;
+  }
+  const backupIndent = indentationAt(backup.text, node.backup.start);
+  const markup = reindent(backupIndent + backup.text.substring(node.backup.start, node.backup.end), backupIndent, '');
+
+  if (node.current) {
+    const indent = indentationAt(current.text, node.current.start);
+    return [{ start: node.current.start, end: node.current.end, newText: reindent(markup, '', indent).substring(indent.length) }];
+  }
+
+  const siblings = node.parent ? node.parent.children : undefined;
+  const index = siblings ? siblings.indexOf(node) : -1;
+  const previous = siblings?.slice(0, index).reverse().find(sibling => sibling.current);
+  if (previous?.current) {
+    return insertElementEdits(current, previous.current, 'after', markup);
+  }
+  const next = siblings?.slice(index + 1).find(sibling => sibling.current);
+  if (next?.current) {
+    return insertElementEdits(current, next.current, 'before', markup);
+  }
+  if (node.parent?.current) {
+    return insertElementEdits(current, node.parent.current, 'firstChild', markup);
+  }
+  return undefined;
+}
+
+function createNode(
+  status: DomDiffStatus,
+  backup: HtmlElementNode | undefined,
+  current: HtmlElementNode | undefined,
+  parent: DomDiffNode | undefined
+): DomDiffNode {
+  return { status, backup, current, changedAttributes: [], textChanged: false, hasChanges: false, parent, children: [] };
+}
+
+function markChanges(node: DomDiffNode): boolean {
+  const childChanges = node.children.map(markChanges).some(changed => changed);
+  node.hasChanges = node.status !== 'unchanged' || childChanges;
+  return node.hasChanges;
+}
+
+/**
+ * Pairs of backup and current elements that are the same element
+ */
+function matchElements(backup: HtmlDocumentModel, current: HtmlDocumentModel): Map<HtmlElementNode, HtmlElementNode> {
+  const matches = new Map<HtmlElementNode, HtmlElementNode>();
+  const matchedCurrent = new Set<HtmlElementNode>();
+  const pair = (backupNode: HtmlElementNode, currentNode: HtmlElementNode) => {
+    matches.set(backupNode, currentNode);
+    matchedCurrent.add(currentNode);
+  };
+
+  const currentIds = uniqueIds(current);
+  for (const [id, backupNode] of uniqueIds(backup)) {
+    const currentNode = currentIds.get(id);
+    if (currentNode && currentNode.tagName === backupNode.tagName) {
+      pair(backupNode, currentNode);
+    }
+  }
+
+  const matchChildren = (backupChildren: HtmlElementNode[], currentChildren: HtmlElementNode[]) => {
+    for (const key of [signature, (node: HtmlElementNode) => node.tagName]) {
+      // Elements with different ids are different elements, however alike they look
+      const same = (a: HtmlElementNode, b: HtmlElementNode) =>
+        key(a) === key(b) && (!a.attributes.id || !b.attributes.id || a.attributes.id === b.attributes.id);
+      const unmatchedBackup = backupChildren.filter(node => !matches.has(node));
+      const unmatchedCurrent = currentChildren.filter(node => !matchedCurrent.has(node));
+      for (const [backupNode, currentNode] of longestCommonSubsequence(unmatchedBackup, unmatchedCurrent, same)) {
+        pair(backupNode, currentNode);
+      }
+    }
+  };
+
+  // Document order visits parents first, so children are only compared under parents that correspond
+  matchChildren(backup.roots, current.roots);
+  for (const node of backup.allElements()) {
+    const match = matches.get(node);
+    if (match) {
+      matchChildren(node.children, match.children);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Current elements whose backup counterpart had another parent, or that no longer keep their order
+ * among the siblings that did not move
+ */
+function findMovedElements(
+  backup: HtmlDocumentModel,
+  current: HtmlDocumentModel,
+  matches: Map<HtmlElementNode, HtmlElementNode>,
+  backupByCurrent: Map<HtmlElementNode, HtmlElementNode>
+): Set<HtmlElementNode> {
+  const moved = new Set<HtmlElementNode>();
+  const siblingLists = [current.roots, ...current.allElements().map(node => node.children)];
+
+  for (const siblings of siblingLists) {
+    const stayed: { node: HtmlElementNode; backupIndex: number }[] = [];
+    for (const node of siblings) {
+      const backupNode = backupByCurrent.get(node);
+      if (!backupNode) {
+        continue;
+      }
+      const backupParent = backupNode.parent;
+      const sameParent = backupParent ? matches.get(backupParent) === node.parent : node.parent === undefined;
+      if (!sameParent) {
+        moved.add(node);
+      } else {
+        const backupSiblings = backupParent ? backupParent.children : backup.roots;
+        stayed.push({ node, backupIndex: backupSiblings.indexOf(backupNode) });
+      }
+    }
+
+    const inOrder = new Set(longestIncreasingRun(stayed.map(entry => entry.backupIndex)));
+    stayed.forEach((entry, index) => {
+      if (!inOrder.has(index)) {
+        moved.add(entry.node);
+      }
+    });
+  }
+  return moved;
+}
+
+function uniqueIds(model: HtmlDocumentModel): Map<string, HtmlElementNode> {
+  const ids = new Map<string, HtmlElementNode>();
+  const duplicates = new Set<string>();
+  for (const node of model.allElements()) {
+    const id = node.attributes.id;
+    if (!id) {
+      continue;
+    }
+    if (ids.has(id)) {
+      duplicates.add(id);
+    }
+    ids.set(id, node);
+  }
+  duplicates.forEach(id => ids.delete(id));
+  return ids;
+}
+
+function signature(node: HtmlElementNode): string {
+  const classes = (node.attributes.class || '').split(/\s+/).filter(name => name).sort();
+  return `${node.tagName}.${classes.join('.')}`;
+}
+
+function changedAttributes(backup: HtmlElementNode, current: HtmlElementNode): string[] {
+  const names = new Set([...Object.keys(backup.attributes), ...Object.keys(current.attributes)]);
+  return [...names].filter(name => backup.attributes[name] !== current.attributes[name]).sort();
+}
+
+function ownText(node: HtmlElementNode): string {
+  return node.contents
+    .filter(content => content.kind === 'text')
+    .map(content => content.text.trim().replace(/\s+/g, ' '))
+    .join(' ');
+}
+
+function longestCommonSubsequence<T>(a: T[], b: T[], same: (a: T, b: T) => boolean): [T, T][] {
+  const lengths = a.map(() => new Array<number>(b.length + 1).fill(0));
+  lengths.push(new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(a[i], b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [T, T][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(a[i], b[j])) {
+      pairs.push([a[i++], b[j++]]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Indexes of a longest strictly increasing subsequence of the values
+ */
+function longestIncreasingRun(values: number[]): number[] {
+  const lengths = values.map(() => 1);
+  const previous = values.map(() => -1);
+  for (let i = 0; i < values.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (values[j] < values[i] && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+  }
+
+  let end = lengths.indexOf(Math.max(...lengths, 0));
+  const indexes: number[] = [];
+  while (end !== -1) {
+    indexes.unshift(end);
+    end = previous[end];
+  }
+  return indexes;
+}
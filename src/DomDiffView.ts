@@ -0,0 +1,253 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DOMVisualizerProvider, elementLabel } from './TreeDataProvider';
+import { HtmlDocumentModel, parseHtmlDocument } from './HtmlDocumentModel';
+import { DomDiffNode, DomDiffStatus, diffDocuments, restoreElementEdits } from './DomDiff';
+import { Snapshot } from './Snapshots';
+import { SnapshotStore } from './SnapshotStore';
+import { SnapshotItem, snapshotUri } from './BackupsView';
+import { applyTextEdits, canEditStructure } from './DomEditCommands';
+
+// Tree items carry a URI of this scheme so the decoration provider can color them by status
+const DOM_DIFF_SCHEME = 'who-am-i-dom-diff';
+
+/**
+ * A backup compared with the current content of its file
+ */
+interface DomComparison {
+  snapshot: Snapshot;
+  fileUri: vscode.Uri;
+  backup: HtmlDocumentModel;
+  current: HtmlDocumentModel;
+  roots: DomDiffNode[];
+}
+
+/**
+ * Shows the elements of a backup and the current file as one tree, marking what was added, removed,
+ * moved or changed since the backup
+ */
+export class DomDiffProvider implements vscode.TreeDataProvider<DomDiffItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<DomDiffItem | undefined | null | void> = new vscode.EventEmitter<DomDiffItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<DomDiffItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  private _comparison: DomComparison | undefined;
+
+  constructor(private store: SnapshotStore) {}
+
+  get comparison(): DomComparison | undefined {
+    return this._comparison;
+  }
+
+  async compare(snapshot: Snapshot): Promise<void> {
+    const fileUri = this.store.fileUriOf(snapshot);
+    const backup = parseHtmlDocument(await this.store.getContent(snapshot));
+    const document = await vscode.workspace.openTextDocument(fileUri);
+    const current = parseHtmlDocument(document.getText());
+    this._comparison = { snapshot, fileUri, backup, current, roots: diffDocuments(backup, current) };
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Compare the backup with the file again, e.g. after the file was edited
+   */
+  async refresh(): Promise<void> {
+    if (this._comparison) {
+      await this.compare(this._comparison.snapshot);
+    }
+  }
+
+  clear(): void {
+    this._comparison = undefined;
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: DomDiffItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: DomDiffItem): DomDiffItem[] {
+    const nodes = element ? element.node.children : this._comparison?.roots || [];
+    return nodes.map(node => new DomDiffItem(node));
+  }
+}
+
+export class DomDiffItem extends vscode.TreeItem {
+  constructor(public readonly node: DomDiffNode) {
+    super(
+      elementLabel((node.current || node.backup)!),
+      node.children.length === 0
+        ? vscode.TreeItemCollapsibleState.None
+        : node.hasChanges ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+    );
+    this.description = describeChange(node);
+    this.tooltip = `${this.label}${this.description ? ` (${this.description})` : ''}`;
+    this.resourceUri = vscode.Uri.from({ scheme: DOM_DIFF_SCHEME, path: `/${node.status}` });
+    this.iconPath = new vscode.ThemeIcon('symbol-misc');
+    this.contextValue = node.backup && node.status !== 'unchanged' ? 'domDiffRestorable' : 'domDiffElement';
+    this.command = {
+      command: 'helloworld.revealDomDiffElement',
+      title: 'Reveal Element',
+      arguments: [this]
+    };
+  }
+}
+
+const decorations: Partial<Record<DomDiffStatus, vscode.FileDecoration>> = {
+  added: new vscode.FileDecoration('A', 'Added since the backup', new vscode.ThemeColor('gitDecoration.addedResourceForeground')),
+  removed: new vscode.FileDecoration('D', 'Removed since the backup', new vscode.ThemeColor('gitDecoration.deletedResourceForeground')),
+  moved: new vscode.FileDecoration('R', 'Moved since the backup', new vscode.ThemeColor('gitDecoration.renamedResourceForeground')),
+  changed: new vscode.FileDecoration('M', 'Changed since the backup', new vscode.ThemeColor('gitDecoration.modifiedResourceForeground'))
+};
+
+class DomDiffDecorationProvider implements vscode.FileDecorationProvider {
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    return uri.scheme === DOM_DIFF_SCHEME ? decorations[uri.path.substring(1) as DomDiffStatus] : undefined;
+  }
+}
+
+/**
+ * Register the structural comparison of a backup with its file, and restoring single elements from it
+ */
+export function registerDomDiffView(
+  context: vscode.ExtensionContext,
+  domProvider: DOMVisualizerProvider,
+  store: SnapshotStore
+) {
+  const provider = new DomDiffProvider(store);
+  const treeView = vscode.window.createTreeView('whoAmIDomDiff', { treeDataProvider: provider });
+  context.subscriptions.push(
+    treeView,
+    vscode.window.registerFileDecorationProvider(new DomDiffDecorationProvider())
+  );
+
+  const updateView = () => {
+    const comparison = provider.comparison;
+    vscode.commands.executeCommand('setContext', 'whoAmI.domDiff.active', comparison !== undefined);
+    treeView.description = comparison
+      ? `${vscode.workspace.asRelativePath(comparison.fileUri)} vs ${comparison.snapshot.label || 'Backup'}`
+      : undefined;
+    treeView.message = comparison && !comparison.roots.some(node => node.hasChanges)
+      ? 'The elements are the same as in the backup.'
+      : undefined;
+  };
+
+  let refreshTimer: NodeJS.Timeout | undefined;
+  context.subscriptions.push(
+    provider.onDidChangeTreeData(updateView),
+    vscode.workspace.onDidChangeTextDocument((event) => {
+      if (event.document.uri.toString() !== provider.comparison?.fileUri.toString()) {
+        return;
+      }
+      if (refreshTimer) {
+        clearTimeout(refreshTimer);
+      }
+      refreshTimer = setTimeout(() => {
+        provider.refresh().catch(error => console.error('Error comparing with the backup:', error));
+      }, 300);
+    }),
+    { dispose: () => refreshTimer && clearTimeout(refreshTimer) }
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('helloworld.compareBackupStructure', async (item?: SnapshotItem) => {
+      const snapshot = item ? item.snapshot : await pickSnapshot(store);
+      if (!snapshot) {
+        return;
+      }
+      try {
+        await provider.compare(snapshot);
+        await vscode.commands.executeCommand('whoAmIDomDiff.focus');
+      } catch (error) {
+        vscode.window.showErrorMessage(`Error comparing with the backup: ${error}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('helloworld.closeDomDiff', () => provider.clear()),
+
+    vscode.commands.registerCommand('helloworld.revealDomDiffElement', async (item?: DomDiffItem) => {
+      const comparison = provider.comparison;
+      if (!item || !comparison) {
+        return;
+      }
+      // Removed elements only exist in the backup, so show them there
+      const element = item.node.current || item.node.backup!;
+      const uri = item.node.current ? comparison.fileUri : snapshotUri(comparison.snapshot);
+      try {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const editor = await vscode.window.showTextDocument(document, { preserveFocus: true });
+        const start = document.positionAt(element.start);
+        editor.selection = new vscode.Selection(document.positionAt(element.end), start);
+        editor.revealRange(new vscode.Range(start, start), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to reveal HTML element: ${error}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('helloworld.restoreDomDiffElement', async (item?: DomDiffItem) => {
+      const comparison = provider.comparison;
+      if (!item || !comparison) {
+        return;
+      }
+
+      try {
+        const document = await vscode.workspace.openTextDocument(comparison.fileUri);
+        if (document.getText() !== comparison.current.text) {
+          await provider.refresh();
+          vscode.window.showWarningMessage('The comparison was out of date and has been refreshed. Please try again.');
+          return;
+        }
+        if (!canEditStructure(comparison.backup) || !canEditStructure(comparison.current)) {
+          return;
+        }
+
+        const edits = restoreElementEdits(comparison.backup, comparison.current, item.node);
+        if (!edits) {
+          vscode.window.showInformationMessage('The element\'s parent was removed as well. Restore the parent element instead.');
+          return;
+        }
+        await applyTextEdits(domProvider, store, comparison.fileUri, edits, `Before restoring ${item.label} from a backup`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Error restoring HTML element: ${error}`);
+      }
+    })
+  );
+}
+
+// Let the user choose one of the active file's backups
+async function pickSnapshot(store: SnapshotStore): Promise<Snapshot | undefined> {
+  const document = vscode.window.activeTextEditor?.document;
+  if (!document || document.languageId !== 'html') {
+    vscode.window.showErrorMessage('Open an HTML file to compare it with one of its backups.');
+    return undefined;
+  }
+
+  const snapshots = await store.list(document.uri);
+  if (snapshots.length === 0) {
+    vscode.window.showInformationMessage(`No backups found for ${path.basename(document.fileName)}.`);
+    return undefined;
+  }
+
+  const choice = await vscode.window.showQuickPick(
+    snapshots.map(snapshot => ({
+      label: snapshot.label || 'Backup',
+      description: new Date(snapshot.timestamp).toLocaleString(),
+      snapshot
+    })),
+    { placeHolder: `Compare ${path.basename(document.fileName)} with which backup?` }
+  );
+  return choice?.snapshot;
+}
+
+function describeChange(node: DomDiffNode): string | undefined {
+  const changes: string[] = [];
+  if (node.status === 'added' || node.status === 'removed' || node.status === 'moved') {
+    changes.push(node.status);
+  }
+  if (node.changedAttributes.length > 0) {
+    changes.push(`attributes: ${node.changedAttributes.join(', ')}`);
+  }
+  if (node.textChanged) {
+    changes.push('text changed');
+  }
+  return changes.length > 0 ? changes.join(' · ') : undefined;
+}
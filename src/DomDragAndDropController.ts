@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { DOMVisualizerProvider, Dependency, DomContentItem, DomTreeItem, elementLabel } from './TreeDataProvider';
+import { InsertPlacement, dropPlacements, moveElementToEdits } from './DomEdits';
+import { applyTextEdits, canEditStructure } from './DomEditCommands';
+import { HtmlDocumentModel } from './HtmlDocumentModel';
+import { SnapshotStore } from './SnapshotStore';
+
+const DOM_ELEMENT_MIME = 'application/vnd.code.tree.domvisualizer';
+
+/**
+ * Drag and drop for the DOM Visualizer. Dropping a node on an element makes it that element's last child;
+ * dropping it on a sibling asks whether to move it inside, before or after the sibling, and dropping it on a
+ * void element puts it next to that element. Only elements can be dragged;
+ * dropping on a text, comment or attribute node targets the element it belongs to. Elements stay within their
+ * document, even when the tree shows the documents of several workspace folders.
+ */
+export class DomDragAndDropController implements vscode.TreeDragAndDropController<DomTreeItem> {
+  readonly dragMimeTypes = [DOM_ELEMENT_MIME];
+  readonly dropMimeTypes = [DOM_ELEMENT_MIME];
+
+  constructor(private provider: DOMVisualizerProvider, private snapshots: SnapshotStore) {}
+
+  handleDrag(source: readonly DomTreeItem[], dataTransfer: vscode.DataTransfer): void {
+    const elements = source.filter((item): item is Dependency => item instanceof Dependency);
+    if (elements.length > 0) {
+      dataTransfer.set(DOM_ELEMENT_MIME, new vscode.DataTransferItem(elements));
+    }
+  }
+
+  async handleDrop(dropTarget: DomTreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+    const transferItem = dataTransfer.get(DOM_ELEMENT_MIME);
+    const source: Dependency | undefined = transferItem?.value?.[0];
+    const target = dropTarget instanceof DomContentItem ? dropTarget.parent : dropTarget;
+    if (!source || !(target instanceof Dependency) || source === target) {
+      return;
+    }
+    if (source.documentUri.toString() !== target.documentUri.toString()) {
+      vscode.window.showErrorMessage('Elements can only be moved within the same HTML document.');
+      return;
+    }
+
+    const initialModel = this.getCurrentModel(source, target);
+    if (!initialModel || !canEditStructure(initialModel)) {
+      return;
+    }
+
+    const placement = await this.pickPlacement(source, target);
+    if (!placement) {
+      return;
+    }
+
+    // The quick pick gives the user time to edit the document, so check the nodes again
+    const model = this.getCurrentModel(source, target);
+    if (!model || !canEditStructure(model)) {
+      return;
+    }
+
+    const edits = moveElementToEdits(model, source.node, target.node, placement);
+    if (!edits) {
+      vscode.window.showErrorMessage('An element cannot be moved into itself or one of its descendants.');
+      return;
+    }
+    if (edits.length === 0) {
+      return;
+    }
+
+    try {
+      await applyTextEdits(this.provider, this.snapshots, source.documentUri, edits, 'Before moving an element');
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error moving HTML element: ${error}`);
+    }
+  }
+
+  /**
+   * The model the dragged and the target node belong to, or undefined after refreshing an outdated tree
+   */
+  private getCurrentModel(source: Dependency, target: Dependency): HtmlDocumentModel | undefined {
+    const model = this.provider.getModel(source.documentUri);
+    if (!model || !this.provider.isCurrent(source) || !this.provider.isCurrent(target)) {
+      this.provider.refresh();
+      vscode.window.showWarningMessage('The DOM Visualizer was out of date and has been refreshed. Please try again.');
+      return undefined;
+    }
+    return model;
+  }
+
+  private async pickPlacement(source: Dependency, target: Dependency): Promise<InsertPlacement | undefined> {
+    const placements = dropPlacements(source.node, target.node);
+    if (placements.length === 1) {
+      return placements[0];
+    }
+
+    const targetLabel = elementLabel(target.node);
+    const labels: Partial<Record<InsertPlacement, string>> = {
+      lastChild: `Move Inside ${targetLabel}`,
+      before: `Move Before ${targetLabel}`,
+      after: `Move After ${targetLabel}`
+    };
+    const choice = await vscode.window.showQuickPick(
+      placements.map(placement => ({ label: labels[placement]!, placement })),
+      { placeHolder: `Where should ${elementLabel(source.node)} go?` }
+    );
+    return choice?.placement;
+  }
+}
@@ -0,0 +1,261 @@
+import * as vscode from 'vscode';
+import { DOMVisualizerProvider, Dependency, DomTreeItem, selectedElement } from './TreeDataProvider';
+import { HtmlDocumentModel, HtmlElementNode } from './HtmlDocumentModel';
+import { buildElementMarkup, elementSnippets } from './ElementSnippets';
+import { SnapshotStore } from './SnapshotStore';
+import {
+  InsertPlacement,
+  TextEdit,
+  detectEol,
+  detectIndentUnit,
+  duplicateElementEdits,
+  insertElementEdits,
+  moveElementEdits,
+  removeElementEdits,
+  unwrapElementEdits
+} from './DomEdits';
+
+type EditBuilder = (model: HtmlDocumentModel, node: HtmlElementNode) => TextEdit[] | undefined;
+
+/**
+ * Register the structural editing actions offered on DOM Visualizer nodes
+ */
+export function registerDomEditCommands(
+  context: vscode.ExtensionContext,
+  provider: DOMVisualizerProvider,
+  treeView: vscode.TreeView<DomTreeItem>,
+  snapshots: SnapshotStore
+) {
+  const register = (command: string, snapshotLabel: string, buildEdits: EditBuilder, unavailableMessage: string) => {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(command, async (item?: Dependency) => {
+        const target = item || selectedElement(treeView);
+        if (!target) {
+          vscode.window.showErrorMessage('Select an element in the DOM Visualizer first.');
+          return;
+        }
+
+        try {
+          await applyDomEdit(provider, snapshots, target, buildEdits, unavailableMessage, snapshotLabel);
+        } catch (error) {
+          vscode.window.showErrorMessage(`Error editing HTML element: ${error}`);
+        }
+      })
+    );
+  };
+
+  register('helloworld.removeDomElement', 'Before removing an element', removeElementEdits, 'This element cannot be removed.');
+  register('helloworld.unwrapDomElement', 'Before unwrapping an element', unwrapElementEdits, 'Void elements have no content to keep.');
+  register('helloworld.duplicateDomElement', 'Before duplicating an element', duplicateElementEdits, 'This element cannot be duplicated.');
+  register(
+    'helloworld.moveDomElementUp',
+    'Before moving an element',
+    (model, node) => moveElementEdits(model, node, 'up'),
+    'The element is already the first among its siblings.'
+  );
+  register(
+    'helloworld.moveDomElementDown',
+    'Before moving an element',
+    (model, node) => moveElementEdits(model, node, 'down'),
+    'The element is already the last among its siblings.'
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('helloworld.insertDomElement', async (item?: Dependency) => {
+      const target = item || selectedElement(treeView);
+      if (!target) {
+        vscode.window.showErrorMessage('Select an element in the DOM Visualizer first.');
+        return;
+      }
+
+      try {
+        await insertElement(provider, snapshots, treeView, target);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Error inserting HTML element: ${error}`);
+      }
+    })
+  );
+}
+
+/**
+ * Ask where and what to insert relative to the target, insert it and reveal the new node
+ */
+async function insertElement(
+  provider: DOMVisualizerProvider,
+  snapshots: SnapshotStore,
+  treeView: vscode.TreeView<DomTreeItem>,
+  target: Dependency
+) {
+  const placements: (vscode.QuickPickItem & { placement: InsertPlacement })[] = [
+    { label: 'First Child', placement: 'firstChild' },
+    { label: 'Last Child', placement: 'lastChild' },
+    { label: 'Sibling Before', placement: 'before' },
+    { label: 'Sibling After', placement: 'after' }
+  ];
+  const placement = await vscode.window.showQuickPick(
+    placements.filter(option => !target.node.isVoid || option.placement === 'before' || option.placement === 'after'),
+    { placeHolder: `Insert relative to ${target.label}` }
+  );
+  if (!placement) {
+    return;
+  }
+
+  const initialModel = provider.getModel(target.documentUri);
+  if (!initialModel) {
+    vscode.window.showErrorMessage('The HTML document could not be read.');
+    return;
+  }
+  if (!canEditStructure(initialModel)) {
+    return;
+  }
+
+  const markupLines = await promptForMarkup(detectIndentUnit(initialModel));
+  if (!markupLines) {
+    return;
+  }
+
+  // The prompts give the user time to edit the document, so check the target only now
+  const model = provider.getModel(target.documentUri);
+  if (!model || !provider.isCurrent(target)) {
+    provider.refresh();
+    vscode.window.showWarningMessage('The DOM Visualizer was out of date and has been refreshed. Please try again.');
+    return;
+  }
+  if (!canEditStructure(model)) {
+    return;
+  }
+
+  const edits = insertElementEdits(model, target.node, placement.placement, markupLines.join(detectEol(model.text)));
+  if (!edits) {
+    vscode.window.showInformationMessage('Void elements cannot have children.');
+    return;
+  }
+
+  const elementOffset = edits[0].start + edits[0].newText.indexOf('<');
+  if (await applyTextEdits(provider, snapshots, target.documentUri, edits, 'Before inserting an element')) {
+    // An active filter may hide the new node, and revealing a hidden node throws
+    const inserted = provider.findItemAt(target.documentUri, elementOffset);
+    if (inserted && provider.isVisible(inserted)) {
+      await treeView.reveal(inserted, { select: true, focus: true, expand: true });
+    }
+  }
+}
+
+/**
+ * Let the user build the new markup from a tag name, id and class or from one of the page's snippets
+ */
+async function promptForMarkup(indentUnit: string): Promise<string[] | undefined> {
+  const choices = [
+    { label: 'Custom Element', detail: 'Enter a tag name, id and class', snippet: undefined },
+    ...elementSnippets.map(snippet => ({ label: snippet.label, detail: snippet.detail, snippet }))
+  ];
+  const choice = await vscode.window.showQuickPick(choices, { placeHolder: 'What should be inserted?' });
+  if (!choice) {
+    return undefined;
+  }
+
+  if (!choice.snippet) {
+    const tagName = await vscode.window.showInputBox({
+      prompt: 'Tag name',
+      placeHolder: 'e.g. div, span, button',
+      validateInput: (input) => /^[a-zA-Z][\w-]*$/.test(input) ? undefined : 'Enter a valid tag name.'
+    });
+    if (!tagName) {
+      return undefined;
+    }
+    const id = await vscode.window.showInputBox({ prompt: 'id attribute (optional)' });
+    if (id === undefined) {
+      return undefined;
+    }
+    const className = await vscode.window.showInputBox({ prompt: 'class attribute (optional)' });
+    if (className === undefined) {
+      return undefined;
+    }
+    return [buildElementMarkup(tagName, id.trim(), className.trim())];
+  }
+
+  const snippet = choice.snippet;
+  const prefix = await vscode.window.showInputBox({
+    prompt: 'Id prefix for the new elements',
+    placeHolder: 'e.g. postal for postal-info, postal-label and postal-value',
+    validateInput: (input) => /^[a-zA-Z][\w-]*$/.test(input) ? undefined : 'Enter a valid id prefix.'
+  });
+  if (!prefix) {
+    return undefined;
+  }
+  const text = await vscode.window.showInputBox({ prompt: snippet.textPrompt, value: snippet.defaultText(prefix) });
+  if (text === undefined) {
+    return undefined;
+  }
+  return snippet.build(prefix, text, indentUnit);
+}
+
+async function applyDomEdit(
+  provider: DOMVisualizerProvider,
+  snapshots: SnapshotStore,
+  item: Dependency,
+  buildEdits: EditBuilder,
+  unavailableMessage: string,
+  snapshotLabel: string
+) {
+  const model = provider.getModel(item.documentUri);
+  if (!model || !provider.isCurrent(item)) {
+    provider.refresh();
+    vscode.window.showWarningMessage('The DOM Visualizer was out of date and has been refreshed. Please try again.');
+    return;
+  }
+  if (!canEditStructure(model)) {
+    return;
+  }
+
+  const edits = buildEdits(model, item.node);
+  if (!edits) {
+    vscode.window.showInformationMessage(unavailableMessage);
+    return;
+  }
+
+  await applyTextEdits(provider, snapshots, item.documentUri, edits, snapshotLabel);
+}
+
+/**
+ * Whether elements of the model can be moved, removed or inserted. When the parser lost track of some tags,
+ * the element ranges do not match the document and edits would cut it at the wrong places.
+ */
+export function canEditStructure(model: HtmlDocumentModel): boolean {
+  if (!model.reliable) {
+    vscode.window.showErrorMessage(
+      'The structure of this HTML document could not be read reliably, e.g. because a <p> is left open before its parent\'s end tag. ' +
+      'Close the open elements to edit it from the DOM Visualizer.'
+    );
+  }
+  return model.reliable;
+}
+
+/**
+ * Snapshot the document under the given label, apply model-offset edits to it as one WorkspaceEdit,
+ * so a single undo reverts them, then save and refresh the tree
+ */
+export async function applyTextEdits(
+  provider: DOMVisualizerProvider,
+  snapshots: SnapshotStore,
+  documentUri: vscode.Uri,
+  edits: TextEdit[],
+  snapshotLabel: string
+): Promise<boolean> {
+  const document = await vscode.workspace.openTextDocument(documentUri);
+  await snapshots.takeSnapshot(document.uri, document.getText(), snapshotLabel);
+  const workspaceEdit = new vscode.WorkspaceEdit();
+  for (const edit of edits) {
+    const range = new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end));
+    workspaceEdit.replace(document.uri, range, edit.newText);
+  }
+
+  const success = await vscode.workspace.applyEdit(workspaceEdit);
+  if (success) {
+    await document.save();
+    provider.refresh();
+  } else {
+    vscode.window.showErrorMessage('Failed to apply the HTML edit.');
+  }
+  return success;
+}
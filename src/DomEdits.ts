@@ -0,0 +1,420 @@
+import { HtmlDocumentModel, HtmlElementNode } from './HtmlDocumentModel';
+
+/**
+ * A replacement of the source range [start, end) with newText, in offsets of the model text
+ */
+export interface TextEdit {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+export type MoveDirection = 'up' | 'down';
+
+/**
+ * Where new or moved markup lands relative to the target element
+ */
+export type InsertPlacement = 'before' | 'after' | 'firstChild' | 'lastChild';
+
+/**
+ * Remove the element, together with its line when it stands on a line of its own
+ */
+export function removeElementEdits(model: HtmlDocumentModel, node: HtmlElementNode): TextEdit[] {
+  const range = ownLinesRange(model.text, node.start, node.end) || { start: node.start, end: node.end };
+  return [{ ...range, newText: '' }];
+}
+
+/**
+ * Replace the element with its content, moving the content out by one indentation level.
+ * Returns undefined for void elements, which have nothing to keep.
+ */
+export function unwrapElementEdits(model: HtmlDocumentModel, node: HtmlElementNode): TextEdit[] | undefined {
+  if (node.isVoid) {
+    return undefined;
+  }
+
+  const text = model.text;
+  const inner = text.substring(node.startTagEnd, node.endTagStart);
+  const own = ownLinesRange(text, node.start, node.end);
+  if (!own) {
+    return [{ start: node.start, end: node.end, newText: inner }];
+  }
+
+  const lines = inner.split(/\r?\n/);
+  // Drop what is left of the start tag line and the indentation before the end tag
+  if (lines.length > 0 && lines[0].trim() === '') {
+    lines.shift();
+  }
+  if (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+    lines.pop();
+  }
+  if (lines.length === 0) {
+    return [{ ...own, newText: '' }];
+  }
+
+  const eol = detectEol(text);
+  const block = reindent(lines.join(eol), indentationOf(lines[0]), indentationAt(text, node.start));
+  return [{ ...own, newText: block + eol }];
+}
+
+/**
+ * Insert a copy of the element right after it
+ */
+export function duplicateElementEdits(model: HtmlDocumentModel, node: HtmlElementNode): TextEdit[] {
+  const text = model.text;
+  const elementText = text.substring(node.start, node.end);
+  const own = ownLinesRange(text, node.start, node.end);
+
+  if (own && text[own.end - 1] === '\n') {
+    return [{ start: own.end, end: own.end, newText: text.substring(own.start, own.end) }];
+  }
+  if (own) {
+    const newText = detectEol(text) + indentationAt(text, node.start) + elementText;
+    return [{ start: node.end, end: node.end, newText }];
+  }
+  return [{ start: node.end, end: node.end, newText: elementText }];
+}
+
+/**
+ * Swap the element with its previous or next element sibling.
+ * Returns undefined when there is no sibling in that direction.
+ */
+export function moveElementEdits(model: HtmlDocumentModel, node: HtmlElementNode, direction: MoveDirection): TextEdit[] | undefined {
+  const siblings = node.parent ? node.parent.children : model.roots;
+  const index = siblings.indexOf(node);
+  const other = siblings[direction === 'up' ? index - 1 : index + 1];
+  if (index === -1 || !other) {
+    return undefined;
+  }
+
+  const text = model.text;
+  return [
+    { start: other.start, end: other.end, newText: text.substring(node.start, node.end) },
+    { start: node.start, end: node.end, newText: text.substring(other.start, other.end) }
+  ];
+}
+
+/**
+ * Insert markup next to or into the target element, indented to match its new position.
+ * The markup is given without base indentation. Returns undefined for child placements in void elements.
+ */
+export function insertElementEdits(
+  model: HtmlDocumentModel,
+  target: HtmlElementNode,
+  placement: InsertPlacement,
+  markup: string
+): TextEdit[] | undefined {
+  const eol = detectEol(model.text);
+  const edit = insertionEdit(model, target, placement, indent => reindent(markup, '', indent) + eol, markup);
+  return edit ? [edit] : undefined;
+}
+
+/**
+ * Where an element dropped on the target can land, the default first. Elements that can have children take it
+ * as their last child; for siblings, reordering before or after them is offered too, the far side in the drag
+ * direction first. Void elements can only take it next to them.
+ */
+export function dropPlacements(node: HtmlElementNode, target: HtmlElementNode): InsertPlacement[] {
+  const reorder: InsertPlacement[] = node.start < target.start ? ['after', 'before'] : ['before', 'after'];
+  if (target.isVoid) {
+    return [reorder[0]];
+  }
+  return node.parent === target.parent ? ['lastChild', ...reorder] : ['lastChild'];
+}
+
+/**
+ * Move the element next to or into the target element, re-indenting it for its new position.
+ * Returns undefined when the target is the element itself, one of its descendants,
+ * or a void element for a child placement.
+ */
+export function moveElementToEdits(
+  model: HtmlDocumentModel,
+  node: HtmlElementNode,
+  target: HtmlElementNode,
+  placement: InsertPlacement
+): TextEdit[] | undefined {
+  if (isSelfOrAncestor(node, target)) {
+    return undefined;
+  }
+
+  const text = model.text;
+  const eol = detectEol(text);
+  const elementText = text.substring(node.start, node.end);
+  const sourceRange = ownLinesRange(text, node.start, node.end) || { start: node.start, end: node.end };
+  const sourceIndent = indentationAt(text, node.start);
+  const insertion = insertionEdit(
+    model,
+    target,
+    placement,
+    indent => reindent(sourceIndent + elementText, sourceIndent, indent) + eol,
+    elementText
+  );
+  if (!insertion) {
+    return undefined;
+  }
+
+  // Landing where the element already is leaves the document unchanged
+  if (insertion.start >= sourceRange.start && insertion.start <= sourceRange.end) {
+    return [];
+  }
+  return [{ ...sourceRange, newText: '' }, insertion];
+}
+
+/**
+ * Build the insertion of an element at the placement. `blockFor` renders it as whole lines at an indentation,
+ * `inlineText` is used where the target shares its line with other content.
+ */
+function insertionEdit(
+  model: HtmlDocumentModel,
+  target: HtmlElementNode,
+  placement: InsertPlacement,
+  blockFor: (indent: string) => string,
+  inlineText: string
+): TextEdit | undefined {
+  const text = model.text;
+  const eol = detectEol(text);
+  const targetIndent = indentationAt(text, target.start);
+  const targetLines = ownLinesRange(text, target.start, target.end);
+  const insertAt = (offset: number, newText: string): TextEdit => ({ start: offset, end: offset, newText });
+
+  if (placement === 'before') {
+    return targetLines
+      ? insertAt(targetLines.start, blockFor(targetIndent))
+      : insertAt(target.start, inlineText);
+  }
+
+  if (placement === 'after') {
+    if (targetLines && text[targetLines.end - 1] === '\n') {
+      return insertAt(targetLines.end, blockFor(targetIndent));
+    }
+    if (targetLines) {
+      const block = blockFor(targetIndent);
+      return insertAt(target.end, eol + block.substring(0, block.length - eol.length));
+    }
+    return insertAt(target.end, inlineText);
+  }
+
+  if (target.isVoid) {
+    return undefined;
+  }
+
+  const childIndent = () => {
+    const firstChild = target.children[0];
+    return firstChild && ownLinesRange(text, firstChild.start, firstChild.end)
+      ? indentationAt(text, firstChild.start)
+      : targetIndent + detectIndentUnit(model);
+  };
+
+  if (placement === 'firstChild') {
+    const nextLineStart = text.indexOf('\n', target.startTagEnd) + 1;
+    if (nextLineStart > 0 && nextLineStart <= target.endTagStart && text.substring(target.startTagEnd, nextLineStart).trim() === '') {
+      return insertAt(nextLineStart, blockFor(childIndent()));
+    }
+    if (targetLines) {
+      return insertAt(target.startTagEnd, eol + blockFor(targetIndent + detectIndentUnit(model)) + targetIndent);
+    }
+    return insertAt(target.startTagEnd, inlineText);
+  }
+
+  const endTagLineStart = text.lastIndexOf('\n', target.endTagStart - 1) + 1;
+  if (endTagLineStart > target.startTagEnd && text.substring(endTagLineStart, target.endTagStart).trim() === '') {
+    return insertAt(endTagLineStart, blockFor(childIndent()));
+  }
+  if (targetLines) {
+    return insertAt(target.endTagStart, eol + blockFor(targetIndent + detectIndentUnit(model)) + targetIndent);
+  }
+  return insertAt(target.endTagStart, inlineText);
+}
+
+/**
+ * An attribute as written in a start tag. `valueStart`/`valueEnd` cover the value without its quotes
+ * and are undefined for attributes written without a value.
+ */
+export interface AttributeSpan {
+  name: string;
+  start: number;
+  end: number;
+  valueStart?: number;
+  valueEnd?: number;
+  quote?: string;
+}
+
+/**
+ * Locate every attribute in the element's start tag
+ */
+export function attributeSpans(model: HtmlDocumentModel, node: HtmlElementNode): AttributeSpan[] {
+  const text = model.text;
+  const attrsStart = node.start + 1 + node.tagName.length;
+  const attrsText = text.substring(attrsStart, node.startTagEnd - 1);
+  const attributePattern = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/dg;
+
+  const spans: AttributeSpan[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(attrsText)) !== null) {
+    const span: AttributeSpan = {
+      name: match[1].toLowerCase(),
+      start: attrsStart + match.index,
+      end: attrsStart + match.index + match[0].length
+    };
+    const valueGroup = [2, 3, 4].find(group => match![group] !== undefined);
+    if (valueGroup !== undefined && match.indices?.[valueGroup]) {
+      const [valueStart, valueEnd] = match.indices[valueGroup];
+      span.valueStart = attrsStart + valueStart;
+      span.valueEnd = attrsStart + valueEnd;
+      span.quote = valueGroup === 2 ? '"' : valueGroup === 3 ? '\'' : undefined;
+    }
+    spans.push(span);
+  }
+  return spans;
+}
+
+/**
+ * Set an attribute value, touching only the value when the attribute exists and appending it otherwise
+ */
+export function setAttributeEdits(model: HtmlDocumentModel, node: HtmlElementNode, name: string, value: string): TextEdit[] {
+  const span = attributeSpans(model, node).find(attr => attr.name === name.toLowerCase());
+  if (!span) {
+    const text = model.text;
+    const insertAt = text.substring(node.start, node.startTagEnd).endsWith('/>') ? node.startTagEnd - 2 : node.startTagEnd - 1;
+    const newText = ` ${name}="${escapeAttributeValue(value, '"')}"`;
+    // Keep `<br />` style tags readable by not gluing the attribute to the slash
+    return [{ start: insertAt, end: insertAt, newText: /\s$/.test(text.substring(node.start, insertAt)) ? newText.trimStart() + ' ' : newText }];
+  }
+
+  if (span.valueStart === undefined || span.valueEnd === undefined) {
+    return [{ start: span.end, end: span.end, newText: `="${escapeAttributeValue(value, '"')}"` }];
+  }
+  if (!span.quote) {
+    return [{ start: span.valueStart, end: span.valueEnd, newText: `"${escapeAttributeValue(value, '"')}"` }];
+  }
+  return [{ start: span.valueStart, end: span.valueEnd, newText: escapeAttributeValue(value, span.quote) }];
+}
+
+/**
+ * Remove an attribute along with the whitespace that separates it from the previous one.
+ * Returns undefined when the element has no such attribute.
+ */
+export function removeAttributeEdits(model: HtmlDocumentModel, node: HtmlElementNode, name: string): TextEdit[] | undefined {
+  const span = attributeSpans(model, node).find(attr => attr.name === name.toLowerCase());
+  if (!span) {
+    return undefined;
+  }
+
+  let start = span.start;
+  while (start > node.start && /\s/.test(model.text[start - 1])) {
+    start--;
+  }
+  return [{ start, end: span.end, newText: '' }];
+}
+
+const unrenderedTags = new Set(['head', 'base', 'link', 'meta', 'title', 'script', 'style', 'noscript', 'template']);
+
+/**
+ * Tag the start tag of every rendered element with its source offset, so elements of a page rendered
+ * from the text can be traced back to the model. Tags that never show up on the page are left as they are.
+ */
+export function offsetMarkerEdits(model: HtmlDocumentModel, attributeName: string): TextEdit[] {
+  const text = model.text;
+  return model.allElements()
+    .filter(node => !unrenderedTags.has(node.tagName) && text[node.startTagEnd - 1] === '>')
+    .map(node => {
+      const insertAt = text.substring(node.start, node.startTagEnd).endsWith('/>') ? node.startTagEnd - 2 : node.startTagEnd - 1;
+      return { start: insertAt, end: insertAt, newText: ` ${attributeName}="${node.start}"` };
+    });
+}
+
+/**
+ * Apply edits to a copy of the text they were computed for
+ */
+export function applyEditsToText(text: string, edits: TextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.substring(0, edit.start) + edit.newText + result.substring(edit.end), text);
+}
+
+function escapeAttributeValue(value: string, quote: string): string {
+  const escaped = value.replace(/&/g, '&amp;');
+  return quote === '"' ? escaped.replace(/"/g, '&quot;') : escaped.replace(/'/g, '&#39;');
+}
+
+/**
+ * The range of whole lines covering [start, end) when nothing but whitespace shares those lines,
+ * including the trailing line break
+ */
+export function ownLinesRange(text: string, start: number, end: number): { start: number; end: number } | undefined {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  if (text.substring(lineStart, start).trim() !== '') {
+    return undefined;
+  }
+
+  const lineEnd = text.indexOf('\n', end);
+  const restOfLine = lineEnd === -1 ? text.substring(end) : text.substring(end, lineEnd);
+  if (restOfLine.trim() !== '') {
+    return undefined;
+  }
+
+  return { start: lineStart, end: lineEnd === -1 ? text.length : lineEnd + 1 };
+}
+
+/**
+ * Leading whitespace of the line containing the offset
+ */
+export function indentationAt(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  return indentationOf(text.substring(lineStart, offset));
+}
+
+/**
+ * Replace the `from` indentation prefix of every line in the block with `to`
+ */
+export function reindent(block: string, from: string, to: string): string {
+  return block
+    .split(/(\r?\n)/)
+    .map((part, i) => {
+      // Odd entries are the captured line breaks
+      if (i % 2 === 1) {
+        return part;
+      }
+      if (part.trim() === '') {
+        return '';
+      }
+      return part.startsWith(from) ? to + part.substring(from.length) : to + part.trimStart();
+    })
+    .join('');
+}
+
+export function detectEol(text: string): string {
+  return text.includes('\r\n') ? '\r\n' : '\n';
+}
+
+/**
+ * The indentation step used in the document, judged from the first child on its own line
+ */
+export function detectIndentUnit(model: HtmlDocumentModel): string {
+  const text = model.text;
+  for (const node of model.allElements()) {
+    if (!node.parent || !ownLinesRange(text, node.start, node.end)) {
+      continue;
+    }
+    const parentIndent = indentationAt(text, node.parent.start);
+    const indent = indentationAt(text, node.start);
+    if (indent.length > parentIndent.length && indent.startsWith(parentIndent)) {
+      return indent.substring(parentIndent.length);
+    }
+  }
+  return '    ';
+}
+
+function isSelfOrAncestor(ancestor: HtmlElementNode, node: HtmlElementNode | undefined): boolean {
+  for (let current = node; current; current = current.parent) {
+    if (current === ancestor) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function indentationOf(line: string): string {
+  const match = /^[ \t]*/.exec(line);
+  return match ? match[0] : '';
+}
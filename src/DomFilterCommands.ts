@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import { DOMVisualizerProvider, DomTreeItem } from './TreeDataProvider';
+import { validateSelector } from './HtmlDocumentModel';
+
+/**
+ * Register CSS-selector filtering of the DOM Visualizer and navigation between the matches
+ */
+export function registerDomFilterCommands(
+  context: vscode.ExtensionContext,
+  provider: DOMVisualizerProvider,
+  treeView: vscode.TreeView<DomTreeItem>
+) {
+  let matchIndex = -1;
+
+  const updateView = () => {
+    const selector = provider.filter;
+    vscode.commands.executeCommand('setContext', 'whoAmI.domVisualizer.filterActive', selector !== undefined);
+    if (!selector) {
+      treeView.message = undefined;
+      return;
+    }
+    const count = provider.getMatches().length;
+    treeView.message = count === 0
+      ? `No elements match ${selector}`
+      : `${count} element${count === 1 ? '' : 's'} match ${selector}`;
+  };
+
+  const goToMatch = async (step: number) => {
+    const matches = provider.getMatches();
+    if (!provider.filter || matches.length === 0) {
+      vscode.window.showInformationMessage('No filter matches to navigate. Filter the DOM Visualizer by a CSS selector first.');
+      return;
+    }
+
+    matchIndex = (matchIndex + step + matches.length) % matches.length;
+    const match = matches[matchIndex];
+    await treeView.reveal(match, { select: true, focus: false, expand: true });
+    await vscode.commands.executeCommand('helloworld.revealDomElement', match);
+  };
+
+  context.subscriptions.push(
+    provider.onDidChangeTreeData(() => {
+      // Edits and filter changes re-parse the tree and may change the matches, so navigation starts over
+      matchIndex = -1;
+      updateView();
+    }),
+
+    vscode.commands.registerCommand('helloworld.filterDomBySelector', async () => {
+      const selector = await vscode.window.showInputBox({
+        prompt: 'Show only elements matching a CSS selector',
+        placeHolder: 'e.g. .info-item > span, #ip-section button',
+        value: provider.filter || '',
+        validateInput: (input) => {
+          if (!input.trim()) {
+            return undefined;
+          }
+          try {
+            validateSelector(input.trim());
+            return undefined;
+          } catch (error) {
+            return `Invalid selector: ${error instanceof Error ? error.message : error}`;
+          }
+        }
+      });
+      if (selector === undefined) {
+        return;
+      }
+
+      try {
+        provider.setFilter(selector.trim() || undefined);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Invalid CSS selector: ${error}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('helloworld.clearDomFilter', () => {
+      provider.setFilter(undefined);
+    }),
+
+    vscode.commands.registerCommand('helloworld.nextDomMatch', () => goToMatch(1)),
+    vscode.commands.registerCommand('helloworld.previousDomMatch', () => goToMatch(-1))
+  );
+
+  updateView();
+}
@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DOMVisualizerProvider } from './TreeDataProvider';
+import { registerDomEditCommands } from './DomEditCommands';
+import { DomDragAndDropController } from './DomDragAndDropController';
+import { registerAttributeInspector } from './AttributeInspectorProvider';
+import { registerDomFilterCommands } from './DomFilterCommands';
+import { findWhoAmIDocument } from './WorkspaceDocuments';
+import { WhoAmIWebviewManager } from './WhoAmIWebview';
+import { registerWebviewInspector } from './WebviewInspector';
+import { SnapshotStore } from './SnapshotStore';
+
+/**
+ * Register the DOM Visualizer view. It follows the active HTML editor unless pinned to a document,
+ * and starts out on the who_am_i.html of every workspace folder. Selection is shared with the webviews.
+ */
+export function registerDomVisualizer(
+  context: vscode.ExtensionContext,
+  webviewManager: WhoAmIWebviewManager,
+  snapshots: SnapshotStore
+): DOMVisualizerProvider {
+  const domProvider = new DOMVisualizerProvider();
+  const domTreeView = vscode.window.createTreeView('domVisualizer', {
+    treeDataProvider: domProvider,
+    showCollapseAll: true,
+    dragAndDropController: new DomDragAndDropController(domProvider, snapshots)
+  });
+  context.subscriptions.push(domTreeView);
+  registerDomEditCommands(context, domProvider, domTreeView, snapshots);
+  registerAttributeInspector(context, domProvider, domTreeView, snapshots);
+  registerDomFilterCommands(context, domProvider, domTreeView);
+  registerWebviewInspector(context, webviewManager, domProvider, domTreeView);
+
+  const updateDescription = () => {
+    const documentUri = domProvider.documentUri;
+    domTreeView.description = documentUri
+      ? `${vscode.workspace.asRelativePath(documentUri)}${domProvider.pinned ? ' (pinned)' : ''}`
+      : undefined;
+  };
+
+  const setPinned = (value: boolean) => {
+    domProvider.pinned = value;
+    vscode.commands.executeCommand('setContext', 'whoAmI.domVisualizer.pinned', value);
+    updateDescription();
+  };
+
+  const followEditor = (editor: vscode.TextEditor | undefined) => {
+    if (!domProvider.pinned && editor && isHtmlDocument(editor.document)) {
+      domProvider.setDocument(editor.document.uri);
+    }
+  };
+
+  context.subscriptions.push(
+    domProvider.onDidChangeDocument(updateDescription),
+    vscode.window.onDidChangeActiveTextEditor(followEditor),
+
+    vscode.commands.registerCommand('helloworld.pinDomVisualizer', () => {
+      if (!domProvider.documentUri) {
+        vscode.window.showInformationMessage('Open an HTML file to pin the DOM Visualizer to it.');
+        return;
+      }
+      setPinned(true);
+    }),
+
+    vscode.commands.registerCommand('helloworld.unpinDomVisualizer', () => {
+      setPinned(false);
+      followEditor(vscode.window.activeTextEditor);
+    })
+  );
+
+  const addFolders = (folders: readonly vscode.WorkspaceFolder[]) => {
+    for (const folder of folders) {
+      findWhoAmIDocument(folder).then((documentUri) => {
+        // Folders where the user opened an HTML editor in the meantime keep showing that one
+        domProvider.addFolder(folder, documentUri);
+      });
+    }
+  };
+
+  setPinned(false);
+  followEditor(vscode.window.activeTextEditor);
+  addFolders(vscode.workspace.workspaceFolders || []);
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders((event) => {
+      for (const folder of event.removed) {
+        domProvider.removeFolder(folder);
+      }
+      addFolders(event.added);
+      updateDescription();
+    })
+  );
+
+  // View toggles for text, comment and attribute nodes
+  const contentToggles: [string, string][] = [
+    ['helloworld.toggleDomTextNodes', 'showTextNodes'],
+    ['helloworld.toggleDomComments', 'showComments'],
+    ['helloworld.toggleDomAttributes', 'showAttributes'],
+  ];
+  for (const [command, setting] of contentToggles) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(command, async () => {
+        const config = vscode.workspace.getConfiguration('whoAmI.domVisualizer');
+        await config.update(setting, !config.get<boolean>(setting, false), vscode.ConfigurationTarget.Global);
+      })
+    );
+  }
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('whoAmI.domVisualizer')) {
+        domProvider.refresh();
+      }
+    })
+  );
+
+  // Add file watcher to refresh TreeView when the shown HTML file changes on disk
+  const watcher = vscode.workspace.createFileSystemWatcher('**/*.html');
+  const refreshIfShown = (uri: vscode.Uri) => {
+    if (domProvider.isShowing(uri)) {
+      console.log(`${path.basename(uri.fsPath)} changed on disk, refreshing TreeView`);
+      domProvider.refresh();
+    }
+  };
+  watcher.onDidChange(refreshIfShown);
+  watcher.onDidCreate(refreshIfShown);
+  watcher.onDidDelete(refreshIfShown);
+  context.subscriptions.push(watcher);
+
+  // Keep the tree in step with unsaved edits so node offsets match the editor
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeTextDocument((event) => {
+      if (domProvider.isShowing(event.document.uri)) {
+        domProvider.refresh();
+      }
+    })
+  );
+
+  // Follow the editor cursor in the tree, like the built-in Outline view
+  context.subscriptions.push(
+    vscode.window.onDidChangeTextEditorSelection((event) => {
+      const followCursor = vscode.workspace
+        .getConfiguration('whoAmI')
+        .get<boolean>('domVisualizer.followCursor', true);
+      if (!followCursor || !domTreeView.visible) {
+        return;
+      }
+
+      const document = event.textEditor.document;
+      if (!domProvider.isShowing(document.uri)) {
+        return;
+      }
+
+      const item = domProvider.findItemAt(document.uri, document.offsetAt(event.selections[0].active));
+      if (item && domProvider.isVisible(item)) {
+        domTreeView.reveal(item, { select: true, focus: false, expand: false }).then(undefined, (error) => {
+          console.error('Error revealing DOM Visualizer node:', error);
+        });
+      }
+    })
+  );
+
+  return domProvider;
+}
+
+function isHtmlDocument(document: vscode.TextDocument): boolean {
+  return document.languageId === 'html' && document.uri.scheme === 'file';
+}
@@ -0,0 +1,78 @@
+/**
+ * Markup building blocks following the patterns used in who_am_i.html.
+ * Every snippet derives its ids from a single prefix, e.g. `city` gives `city-info`, `city-label` and `city-value`.
+ */
+export interface ElementSnippet {
+  label: string;
+  detail: string;
+  /** Prompt for the text the snippet shows, e.g. the label of an info item */
+  textPrompt: string;
+  defaultText(prefix: string): string;
+  /** Lines of markup without base indentation, nested by `indentUnit` */
+  build(prefix: string, text: string, indentUnit: string): string[];
+}
+
+export const elementSnippets: ElementSnippet[] = [
+  {
+    label: 'Info item',
+    detail: 'A label/value pair for the location info grid',
+    textPrompt: 'Label text',
+    defaultText: prefix => `${capitalize(prefix)}:`,
+    build: (prefix, text, indentUnit) => [
+      `<div id="${prefix}-info" class="info-item">`,
+      `${indentUnit}<label id="${prefix}-label">${escapeHtml(text)}</label>`,
+      `${indentUnit}<span id="${prefix}-value" class="info-value"></span>`,
+      '</div>'
+    ]
+  },
+  {
+    label: 'Card section',
+    detail: 'A card with a title and a content container',
+    textPrompt: 'Section title',
+    defaultText: prefix => capitalize(prefix),
+    build: (prefix, text, indentUnit) => [
+      `<section id="${prefix}-section" class="card">`,
+      `${indentUnit}<h2 id="${prefix}-section-title">${escapeHtml(text)}</h2>`,
+      `${indentUnit}<div id="${prefix}-container">`,
+      `${indentUnit}</div>`,
+      '</section>'
+    ]
+  },
+  {
+    label: 'Loading spinner',
+    detail: 'A hidden loading block with a spinner and a message',
+    textPrompt: 'Loading message',
+    defaultText: prefix => `Getting your ${prefix}...`,
+    build: (prefix, text, indentUnit) => [
+      `<div id="${prefix}-loading" class="loading hidden">`,
+      `${indentUnit}<div id="${prefix}-spinner" class="spinner"></div>`,
+      `${indentUnit}<p id="${prefix}-loading-text">${escapeHtml(text)}</p>`,
+      '</div>'
+    ]
+  }
+];
+
+const voidTags = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+/**
+ * Markup for a single element from a tag name and optional id and class
+ */
+export function buildElementMarkup(tagName: string, id: string, className: string): string {
+  let startTag = `<${tagName}`;
+  if (id) {
+    startTag += ` id="${escapeHtml(id)}"`;
+  }
+  if (className) {
+    startTag += ` class="${escapeHtml(className)}"`;
+  }
+  startTag += '>';
+  return voidTags.has(tagName.toLowerCase()) ? startTag : `${startTag}</${tagName}>`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,244 @@
+import { parse, HTMLElement, NodeType, TextNode, CommentNode } from 'node-html-parser';
+
+/**
+ * A single element of a parsed HTML document, with its exact location in the source text.
+ * All offsets are zero-based character offsets into the text the model was built from.
+ */
+export interface HtmlElementNode {
+  tagName: string;
+  attributes: Record<string, string>;
+  /** Offset of the `<` that opens the start tag */
+  start: number;
+  /** Offset just past the end tag, or past the start tag for void and unclosed elements */
+  end: number;
+  /** Offset just past the `>` that closes the start tag */
+  startTagEnd: number;
+  /** Offset of the `</` that opens the end tag, or `end` when there is none */
+  endTagStart: number;
+  isVoid: boolean;
+  parent: HtmlElementNode | undefined;
+  children: HtmlElementNode[];
+  /** Non-blank text and comments directly inside the element, in document order */
+  contents: HtmlContentNode[];
+}
+
+/**
+ * Text or a comment inside an element. For comments `text` is the content between `<!--` and `-->`.
+ */
+export interface HtmlContentNode {
+  kind: 'text' | 'comment';
+  text: string;
+  start: number;
+  end: number;
+  parent: HtmlElementNode;
+}
+
+// Elements whose content the parser keeps as text, the `blockTextElements` passed to it
+const RAW_TEXT_ELEMENTS = ['script', 'style', 'pre', 'noscript'];
+
+/**
+ * Parsed view of an HTML document built on node-html-parser. Comments, `<script>`/`<style>`
+ * bodies and quoted attribute values are handled by the parser rather than by tag regexes.
+ */
+export class HtmlDocumentModel {
+  readonly roots: HtmlElementNode[];
+  /**
+   * Whether every tag in the source belongs to an element of the model. The parser drops elements around some
+   * unclosed tags, e.g. a `<p>` left open before its parent's end tag; the ranges of such a model cannot be
+   * trusted for edits.
+   */
+  readonly reliable: boolean;
+  private parsedRoot: HTMLElement;
+  private nodesByElement = new Map<HTMLElement, HtmlElementNode>();
+
+  constructor(readonly text: string) {
+    // Without lowerCaseTagName the parser only pairs end tags written in the same case as the start tag,
+    // and drops or truncates elements like `<DIV>…</div>`
+    this.parsedRoot = parse(text, {
+      comment: true,
+      lowerCaseTagName: true,
+      blockTextElements: { script: true, style: true, pre: true, noscript: true }
+    });
+    this.roots = this.convertChildren(this.parsedRoot, undefined);
+    this.reliable = this.accountsForAllTags();
+  }
+
+  /**
+   * Elements matching a CSS selector, in document order. Throws for selectors that cannot be parsed.
+   */
+  querySelectorAll(selector: string): HtmlElementNode[] {
+    return this.parsedRoot
+      .querySelectorAll(selector)
+      .map(element => this.nodesByElement.get(element))
+      .filter((node): node is HtmlElementNode => node !== undefined);
+  }
+
+  /**
+   * All elements in document order
+   */
+  allElements(): HtmlElementNode[] {
+    const result: HtmlElementNode[] = [];
+    const visit = (nodes: HtmlElementNode[]) => {
+      for (const node of nodes) {
+        result.push(node);
+        visit(node.children);
+      }
+    };
+    visit(this.roots);
+    return result;
+  }
+
+  /**
+   * The innermost element whose range contains the given offset
+   */
+  elementAt(offset: number): HtmlElementNode | undefined {
+    let found: HtmlElementNode | undefined;
+    let candidates = this.roots;
+    while (candidates.length > 0) {
+      const match = candidates.find(node => node.start <= offset && offset < node.end);
+      if (!match) {
+        break;
+      }
+      found = match;
+      candidates = match.children;
+    }
+    return found;
+  }
+
+  /**
+   * Scan the source for start and end tags, skipping comments and the content of raw text elements, and check
+   * that each one opens or closes an element of the model
+   */
+  private accountsForAllTags(): boolean {
+    const starts = new Set<number>();
+    const endTags = new Set<number>();
+    for (const node of this.allElements()) {
+      starts.add(node.start);
+      if (node.endTagStart < node.end) {
+        endTags.add(node.endTagStart);
+      }
+    }
+
+    const tag = /<(\/?)([a-zA-Z][^\s/>]*)/y;
+    let index = this.text.indexOf('<');
+    while (index !== -1) {
+      if (this.text.startsWith('<!--', index)) {
+        const commentEnd = this.text.indexOf('-->', index + 4);
+        index = commentEnd === -1 ? -1 : this.text.indexOf('<', commentEnd + 3);
+        continue;
+      }
+      tag.lastIndex = index;
+      const match = tag.exec(this.text);
+      if (!match) {
+        index = this.text.indexOf('<', index + 1);
+        continue;
+      }
+      if (match[1]) {
+        if (!endTags.has(index)) {
+          return false;
+        }
+        index = this.text.indexOf('<', index + match[0].length);
+        continue;
+      }
+      if (!starts.has(index)) {
+        return false;
+      }
+      const tagName = match[2].toLowerCase();
+      let next = findStartTagEnd(this.text, index);
+      if (RAW_TEXT_ELEMENTS.includes(tagName)) {
+        // The content is text up to the element's own end tag, which the next round checks
+        const endTag = new RegExp(`</${escapeRegExp(tagName)}\\s*>`, 'ig');
+        endTag.lastIndex = next;
+        next = endTag.exec(this.text)?.index ?? this.text.length;
+      }
+      index = this.text.indexOf('<', next);
+    }
+    return true;
+  }
+
+  private convertChildren(element: HTMLElement, parent: HtmlElementNode | undefined): HtmlElementNode[] {
+    const nodes: HtmlElementNode[] = [];
+    for (const child of element.childNodes) {
+      if (child.nodeType === NodeType.ELEMENT_NODE) {
+        nodes.push(this.convertElement(child as HTMLElement, parent));
+      } else if (parent && child.nodeType === NodeType.TEXT_NODE && !(child as TextNode).isWhitespace) {
+        const [start, end] = child.range;
+        parent.contents.push({ kind: 'text', text: (child as TextNode).text, start, end, parent });
+      } else if (parent && child.nodeType === NodeType.COMMENT_NODE) {
+        const [start, end] = child.range;
+        parent.contents.push({ kind: 'comment', text: (child as CommentNode).rawText, start, end, parent });
+      }
+    }
+    return nodes;
+  }
+
+  private convertElement(element: HTMLElement, parent: HtmlElementNode | undefined): HtmlElementNode {
+    const [start, parsedEnd] = element.range;
+    const tagName = element.rawTagName.toLowerCase();
+    const node: HtmlElementNode = {
+      tagName,
+      attributes: { ...element.attributes },
+      start,
+      end: parsedEnd,
+      startTagEnd: findStartTagEnd(this.text, start),
+      endTagStart: parsedEnd,
+      isVoid: element.isVoidElement,
+      parent,
+      children: [],
+      contents: []
+    };
+    this.nodesByElement.set(element, node);
+    node.children = this.convertChildren(element, node);
+
+    const endTag = new RegExp(`</\\s*${escapeRegExp(tagName)}\\s*>$`, 'i').exec(this.text.substring(node.startTagEnd, parsedEnd));
+    if (endTag) {
+      node.endTagStart = node.startTagEnd + endTag.index;
+    } else {
+      // Unclosed elements only get their start tag as range from the parser;
+      // stretch them over the content the parser attached to them, and over an end tag right after it
+      // that the parser did not pair with the element.
+      const lastChild = element.childNodes[element.childNodes.length - 1];
+      const contentEnd = Math.max(node.startTagEnd, lastChild ? lastChild.range[1] : node.startTagEnd);
+      const trailingEndTag = new RegExp(`^\\s*</\\s*${escapeRegExp(tagName)}\\s*>`, 'i').exec(this.text.substring(contentEnd));
+      node.endTagStart = trailingEndTag ? contentEnd + trailingEndTag[0].indexOf('<') : contentEnd;
+      node.end = trailingEndTag ? contentEnd + trailingEndTag[0].length : contentEnd;
+    }
+
+    return node;
+  }
+}
+
+export function parseHtmlDocument(text: string): HtmlDocumentModel {
+  return new HtmlDocumentModel(text);
+}
+
+/**
+ * Throws when the CSS selector cannot be parsed, independent of any document
+ */
+export function validateSelector(selector: string): void {
+  parse('').querySelectorAll(selector);
+}
+
+/**
+ * Find the offset just past the `>` closing the start tag at `start`, skipping quoted attribute values
+ */
+function findStartTagEnd(text: string, start: number): number {
+  let quote: string | undefined;
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) {
+        quote = undefined;
+      }
+    } else if (ch === '"' || ch === '\'') {
+      quote = ch;
+    } else if (ch === '>') {
+      return i + 1;
+    }
+  }
+  return text.length;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,115 @@
+import { IpDetails, IpFamily, ipFamilyOf } from './IpLookup';
+
+/**
+ * A public IP address observed over an uninterrupted period: repeated lookups returning the same address
+ * extend the entry instead of adding another one
+ */
+export interface IpHistoryEntry {
+  ip: string;
+  /** ISO 8601 time of the first lookup that returned the address */
+  firstSeen: string;
+  /** ISO 8601 time of the latest lookup that returned the address */
+  lastSeen: string;
+  city?: string;
+  region?: string;
+  country?: string;
+  /** Organization or ISP */
+  org?: string;
+  /** Service that reported the address */
+  provider: string;
+}
+
+export interface IpObservation {
+  details: IpDetails;
+  provider: string;
+  time: Date;
+}
+
+export interface RecordedObservation {
+  /** The history with the observation, newest first */
+  entries: IpHistoryEntry[];
+  /** The entry the observation replaced as the current address, when the address changed */
+  changedFrom: IpHistoryEntry | undefined;
+}
+
+/**
+ * Add a lookup of the own public address to the history, which is ordered newest first and kept to
+ * `maxEntries` entries. IPv4 and IPv6 addresses are followed separately, so a machine with both does not
+ * seem to change its address whenever the lookups alternate between them.
+ */
+export function recordIpObservation(entries: IpHistoryEntry[], observation: IpObservation, maxEntries: number): RecordedObservation {
+  const latest = currentIpEntry(entries, ipFamilyOf(observation.details.ip));
+  const time = observation.time.toISOString();
+
+  if (latest && latest.ip === observation.details.ip) {
+    const extended = { ...latest, ...locationOf(observation.details), lastSeen: time };
+    return { entries: entries.map(entry => entry === latest ? extended : entry), changedFrom: undefined };
+  }
+
+  const entry: IpHistoryEntry = {
+    ip: observation.details.ip,
+    firstSeen: time,
+    lastSeen: time,
+    ...locationOf(observation.details),
+    provider: observation.provider
+  };
+  const updated = [entry, ...entries];
+  // The current address of the other IP version stays however long ago it was first seen
+  const current = currentIpEntries(updated);
+  let room = maxEntries - current.length;
+  return { entries: updated.filter(item => current.includes(item) || room-- > 0), changedFrom: latest };
+}
+
+/**
+ * Fill in the location of the current address from a details lookup. Lookups of other addresses
+ * leave the history unchanged.
+ */
+export function addIpDetails(entries: IpHistoryEntry[], details: IpDetails): IpHistoryEntry[] {
+  const latest = currentIpEntry(entries, ipFamilyOf(details.ip));
+  if (!latest || latest.ip !== details.ip) {
+    return entries;
+  }
+  const updated = { ...latest, ...locationOf(details) };
+  return entries.map(entry => entry === latest ? updated : entry);
+}
+
+/**
+ * The newest entry of the IP version, which is the machine's current address of that version
+ */
+export function currentIpEntry(entries: IpHistoryEntry[], family: IpFamily): IpHistoryEntry | undefined {
+  return entries.find(entry => ipFamilyOf(entry.ip) === family);
+}
+
+/**
+ * The current IPv4 and IPv6 entries, IPv4 first
+ */
+export function currentIpEntries(entries: IpHistoryEntry[]): IpHistoryEntry[] {
+  return (['IPv4', 'IPv6'] as const)
+    .map(family => currentIpEntry(entries, family))
+    .filter((entry): entry is IpHistoryEntry => entry !== undefined);
+}
+
+/**
+ * Short location and network description, e.g. `Berlin, DE · Example ISP`
+ */
+export function describeIpEntry(entry: IpHistoryEntry): string {
+  const place = [entry.city, entry.country].filter(value => value).join(', ');
+  return [place, entry.org].filter(value => value).join(' · ');
+}
+
+/**
+ * Whether the address was last confirmed longer ago than `maxAgeMinutes`
+ */
+export function isIpStale(entry: IpHistoryEntry, now: Date, maxAgeMinutes: number): boolean {
+  return now.getTime() - new Date(entry.lastSeen).getTime() > maxAgeMinutes * 60 * 1000;
+}
+
+function locationOf(details: IpDetails): Partial<IpHistoryEntry> {
+  const location: Partial<IpHistoryEntry> = {};
+  for (const field of ['city', 'region', 'country', 'org'] as const) {
+    if (details[field]) {
+      location[field] = details[field];
+    }
+  }
+  return location;
+}
@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import { IpHistoryEntry, IpObservation, RecordedObservation, addIpDetails, currentIpEntries, describeIpEntry, recordIpObservation } from './IpHistory';
+import { AddressOutcome, IpDetails, IpFamily, ipFamilyOf } from './IpLookup';
+import { IpLookupResult, IpLookupService, savePublicAddresses } from './IpLookupService';
+
+// Global state key of the history, so it is shared by all workspaces
+const HISTORY_KEY = 'whoAmI.ipHistory';
+
+/**
+ * The public IP addresses this machine was seen with, newest first
+ */
+export class IpHistoryStore {
+  private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  // Updates are read-modify-write, so run them one after another
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private globalState: vscode.Memento) {}
+
+  get entries(): IpHistoryEntry[] {
+    return this.globalState.get<IpHistoryEntry[]>(HISTORY_KEY, []);
+  }
+
+  record(observation: IpObservation): Promise<RecordedObservation> {
+    return this.enqueue(async () => {
+      const maxEntries = vscode.workspace.getConfiguration('whoAmI').get<number>('ipHistory.maxEntries', 100);
+      const recorded = recordIpObservation(this.entries, observation, maxEntries);
+      await this.update(recorded.entries);
+      return recorded;
+    });
+  }
+
+  addDetails(details: IpDetails): Promise<void> {
+    return this.enqueue(async () => {
+      const entries = this.entries;
+      const updated = addIpDetails(entries, details);
+      if (updated !== entries) {
+        await this.update(updated);
+      }
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.enqueue(() => this.update([]));
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async update(entries: IpHistoryEntry[]): Promise<void> {
+    await this.globalState.update(HISTORY_KEY, entries);
+    this._onDidChange.fire();
+  }
+}
+
+export class IpHistoryProvider implements vscode.TreeDataProvider<IpHistoryItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<IpHistoryItem | undefined | null | void> = new vscode.EventEmitter<IpHistoryItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<IpHistoryItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  constructor(private history: IpHistoryStore) {
+    history.onDidChange(() => this._onDidChangeTreeData.fire());
+  }
+
+  getTreeItem(element: IpHistoryItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: IpHistoryItem): IpHistoryItem[] {
+    const entries = this.history.entries;
+    const current = currentIpEntries(entries);
+    return element ? [] : entries.map(entry => new IpHistoryItem(entry, current.includes(entry)));
+  }
+}
+
+export class IpHistoryItem extends vscode.TreeItem {
+  constructor(
+    public readonly entry: IpHistoryEntry,
+    current: boolean
+  ) {
+    super(entry.ip, vscode.TreeItemCollapsibleState.None);
+    const seen = new Date(entry.firstSeen).toLocaleString();
+    this.description = [describeIpEntry(entry), current ? 'current' : seen].filter(value => value).join(' · ');
+    this.tooltip = [
+      entry.ip,
+      describeIpEntry(entry),
+      `First seen: ${seen}`,
+      `Last seen: ${new Date(entry.lastSeen).toLocaleString()}`,
+      `Reported by ${entry.provider}`
+    ].filter(line => line).join('\n');
+    this.contextValue = 'whoAmIIpHistoryEntry';
+    this.iconPath = new vscode.ThemeIcon(current ? 'globe' : 'history');
+  }
+}
+
+/**
+ * Record every lookup of the public address in the history, notify about address changes if enabled,
+ * and register the "Who Am I: IP History" view
+ */
+export function registerIpHistoryView(context: vscode.ExtensionContext, ipLookup: IpLookupService): IpHistoryStore {
+  const history = new IpHistoryStore(context.globalState);
+  context.subscriptions.push(
+    vscode.window.createTreeView('whoAmIIpHistory', { treeDataProvider: new IpHistoryProvider(history) })
+  );
+
+  context.subscriptions.push(
+    ipLookup.onDidLookup(async ({ details, provider, ownAddress }) => {
+      try {
+        if (!ownAddress) {
+          await history.addDetails(details);
+          return;
+        }
+
+        const { changedFrom } = await history.record({ details, provider, time: new Date() });
+        const notify = vscode.workspace.getConfiguration('whoAmI').get<boolean>('ipHistory.notifyOnChange', false);
+        if (changedFrom && notify) {
+          const network = describeIpEntry(history.entries[0]);
+          const selection = await vscode.window.showWarningMessage(
+            `Your public ${ipFamilyOf(details.ip)} address changed from ${changedFrom.ip} to ${details.ip}${network ? ` (${network})` : ''}.`,
+            'Show IP History'
+          );
+          if (selection === 'Show IP History') {
+            await vscode.commands.executeCommand('whoAmIIpHistory.focus');
+          }
+        }
+      } catch (error) {
+        console.error('Error recording the IP address:', error);
+      }
+    }),
+
+    vscode.commands.registerCommand('helloworld.showIpHistory', async () => {
+      await vscode.commands.executeCommand('whoAmIIpHistory.focus');
+    }),
+
+    vscode.commands.registerCommand('helloworld.lookUpPublicIpAddress', async () => {
+      try {
+        const result = await vscode.window.withProgress(
+          { location: { viewId: 'whoAmIIpHistory' }, title: 'Looking up your public IP addresses' },
+          () => ipLookup.lookupOwnAddresses()
+        );
+        if (!result.IPv4.ok && !result.IPv6.ok) {
+          throw result.IPv4.error;
+        }
+        await savePublicAddresses(result);
+        vscode.window.showInformationMessage(`${describeOutcome('IPv4', result.IPv4)} ${describeOutcome('IPv6', result.IPv6)}`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to look up your public IP address: ${error instanceof Error ? error.message : error}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('helloworld.copyIpAddress', async (item?: IpHistoryItem) => {
+      if (item) {
+        await vscode.env.clipboard.writeText(item.entry.ip);
+      }
+    }),
+
+    vscode.commands.registerCommand('helloworld.clearIpHistory', async () => {
+      const result = await vscode.window.showWarningMessage(
+        'This will permanently delete the history of your public IP addresses.',
+        { modal: true },
+        'Clear IP History'
+      );
+      if (result === 'Clear IP History') {
+        await history.clear();
+      }
+    })
+  );
+
+  return history;
+}
+
+function describeOutcome(family: IpFamily, outcome: AddressOutcome<IpLookupResult>): string {
+  if (outcome.ok) {
+    return `Your public ${family} address is ${outcome.value.details.ip} (reported by ${outcome.value.provider}).`;
+  }
+  return outcome.noConnectivity ? `No ${family} connectivity.` : `The ${family} lookup failed: ${outcome.error.message}`;
+}
@@ -0,0 +1,336 @@
+/**
+ * Public IP address lookups, run in the extension host instead of the webview. Each service is wrapped
+ * in a provider that turns its response into `IpDetails`; `lookupIpDetails` adds timeouts and retries.
+ */
+import * as http from 'http';
+import * as https from 'https';
+
+/**
+ * What is known about an IP address. The field names follow ipinfo.io, which the page displays.
+ */
+export interface IpDetails {
+  ip: string;
+  city?: string;
+  region?: string;
+  country?: string;
+  timezone?: string;
+  /** Organization or ISP */
+  org?: string;
+  /** Coordinates as `latitude,longitude` */
+  loc?: string;
+  postal?: string;
+}
+
+export type IpDetailsField = keyof IpDetails;
+
+export type IpLookupErrorKind = 'timeout' | 'network' | 'rateLimited' | 'http' | 'invalidResponse' | 'unsupported' | 'wrongFamily';
+
+export type IpFamily = 'IPv4' | 'IPv6';
+
+const errorDescriptions: Record<IpLookupErrorKind, string> = {
+  timeout: 'did not answer in time',
+  network: 'could not be reached',
+  rateLimited: 'refused the request because of too many requests',
+  http: 'answered with an error',
+  invalidResponse: 'answered with something that is not IP information',
+  unsupported: 'cannot do this lookup',
+  wrongFamily: 'answered over the other IP version'
+};
+
+/**
+ * A failed lookup, classified so callers can tell passing problems from ones retrying will not fix
+ */
+export class IpLookupError extends Error {
+  constructor(
+    readonly kind: IpLookupErrorKind,
+    readonly provider: string,
+    detail?: string,
+    readonly status?: number
+  ) {
+    super(`${provider} ${errorDescriptions[kind]}${detail ? ` (${detail})` : ''}.`);
+    this.name = 'IpLookupError';
+  }
+
+  /** Whether trying again may succeed */
+  get retryable(): boolean {
+    return this.kind === 'timeout' || this.kind === 'network' || this.kind === 'rateLimited'
+      || (this.kind === 'http' && this.status !== undefined && this.status >= 500);
+  }
+}
+
+export interface IpLookupProvider {
+  readonly id: string;
+  readonly label: string;
+  /**
+   * Look up the given address, or the caller's own public address when none is given,
+   * contacting the service only over `family` when one is given
+   */
+  lookup(ipAddress: string | undefined, timeoutMs: number, family?: IpFamily): Promise<IpDetails>;
+}
+
+export const IPIFY_BASE_URL = 'https://api.ipify.org';
+export const IPINFO_BASE_URL = 'https://ipinfo.io';
+// ipify and ipinfo.io have separate hosts for IPv6
+export const IPIFY_IPV6_BASE_URL = 'https://api6.ipify.org';
+export const IPINFO_IPV6_BASE_URL = 'https://v6.ipinfo.io';
+
+/**
+ * api.ipify.org only knows the caller's own address, without any details
+ */
+export class IpifyProvider implements IpLookupProvider {
+  readonly id = 'ipify';
+  readonly label = 'ipify';
+
+  constructor(private baseUrl = IPIFY_BASE_URL) {}
+
+  async lookup(ipAddress: string | undefined, timeoutMs: number, family?: IpFamily): Promise<IpDetails> {
+    if (ipAddress) {
+      throw new IpLookupError('unsupported', this.label, 'it only reports your own address');
+    }
+    const data = await fetchJson(this.label, joinUrl(this.baseUrl, '?format=json'), timeoutMs, family);
+    return { ip: requireIp(this.label, data.ip) };
+  }
+}
+
+export class IpinfoProvider implements IpLookupProvider {
+  readonly id = 'ipinfo';
+  readonly label = 'ipinfo.io';
+
+  constructor(private baseUrl = IPINFO_BASE_URL) {}
+
+  async lookup(ipAddress: string | undefined, timeoutMs: number, family?: IpFamily): Promise<IpDetails> {
+    const path = ipAddress ? `/${encodeURIComponent(ipAddress)}/json` : '/json';
+    const data = await fetchJson(this.label, joinUrl(this.baseUrl, path), timeoutMs, family);
+    return mapFields(this.label, data, {});
+  }
+}
+
+/**
+ * Any service answering with a JSON object. `url` looks up the caller's own address; `{ip}` in it is
+ * replaced by the address to look up, and left out for the own address. `fields` maps `IpDetails` fields
+ * to dotted paths in the response, e.g. `{ "country": "location.country_code" }`; unmapped fields are
+ * read from the property of the same name.
+ */
+export class CustomJsonProvider implements IpLookupProvider {
+  readonly id = 'custom';
+  readonly label: string;
+
+  constructor(private url: string, private fields: Partial<Record<IpDetailsField, string>>) {
+    try {
+      this.label = new URL(url.replace(/\{ip\}/g, '')).host;
+    } catch (error) {
+      throw new Error(`"${url}" is not a valid URL for the custom IP lookup.`);
+    }
+  }
+
+  async lookup(ipAddress: string | undefined, timeoutMs: number, family?: IpFamily): Promise<IpDetails> {
+    const url = this.url.replace(/\{ip\}/g, ipAddress ? encodeURIComponent(ipAddress) : '').replace(/([^:])\/{2,}/g, '$1/');
+    const data = await fetchJson(this.label, url, timeoutMs, family);
+    return mapFields(this.label, data, this.fields);
+  }
+}
+
+export interface RetryOptions {
+  timeoutMs: number;
+  /** Further attempts after the first one fails for a retryable reason */
+  retries: number;
+  /** Wait before the first retry; it doubles for every further one */
+  retryDelayMs: number;
+}
+
+/**
+ * Look up the address with the provider, retrying timeouts, network errors, rate limits and server errors.
+ * With a `family`, the service is only contacted over that IP version.
+ */
+export async function lookupIpDetails(
+  provider: IpLookupProvider,
+  ipAddress: string | undefined,
+  options: RetryOptions,
+  family?: IpFamily
+): Promise<IpDetails> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.lookup(ipAddress, options.timeoutMs, family);
+    } catch (error) {
+      const lookupError = error instanceof IpLookupError
+        ? error
+        : new IpLookupError('network', provider.label, error instanceof Error ? error.message : String(error));
+      if (!lookupError.retryable || attempt >= options.retries) {
+        throw lookupError;
+      }
+      await new Promise(resolve => setTimeout(resolve, options.retryDelayMs * 2 ** attempt));
+    }
+  }
+}
+
+export function ipFamilyOf(ipAddress: string): IpFamily {
+  return ipAddress.includes(':') ? 'IPv6' : 'IPv4';
+}
+
+/**
+ * The result of looking up the own address over one IP version. `noConnectivity` tells a machine without
+ * a route over that version apart from a lookup that failed for another reason.
+ */
+export type AddressOutcome<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: Error; noConnectivity: boolean };
+
+export type DualStackOutcome<T> = Record<IpFamily, AddressOutcome<T>>;
+
+/**
+ * Run the IPv4 and IPv6 lookups of the own address side by side. A version has no connectivity when its
+ * lookup could not connect or timed out while the other version's lookup got through. When both fail the
+ * machine is offline or the services are down, which says nothing about either version.
+ */
+export async function lookupDualStack<T>(lookups: Record<IpFamily, () => Promise<T>>): Promise<DualStackOutcome<T>> {
+  const [ipv4, ipv6] = await Promise.allSettled([lookups.IPv4(), lookups.IPv6()]);
+  const outcome = (settled: PromiseSettledResult<T>, other: PromiseSettledResult<T>): AddressOutcome<T> => {
+    if (settled.status === 'fulfilled') {
+      return { ok: true, value: settled.value };
+    }
+    const error = settled.reason instanceof Error ? settled.reason : new Error(String(settled.reason));
+    const unreachable = error instanceof IpLookupError && (error.kind === 'network' || error.kind === 'timeout');
+    return { ok: false, error, noConnectivity: unreachable && other.status === 'fulfilled' };
+  };
+  return { IPv4: outcome(ipv4, ipv6), IPv6: outcome(ipv6, ipv4) };
+}
+
+/**
+ * The public addresses kept in the `whoAmI.publicAddresses` setting. `null` means the machine has no such
+ * address, or it was never looked up.
+ */
+export interface StoredPublicAddresses {
+  ipv4: string | null;
+  ipv6: string | null;
+  /** Whether the last lookup reached the internet over IPv6; `null` while unknown */
+  ipv6Connectivity: boolean | null;
+  /** ISO 8601 time of the last lookup */
+  lastChecked: string | null;
+}
+
+/**
+ * Update the stored addresses with a dual-stack lookup. An address whose lookup failed for another reason
+ * than missing connectivity keeps its stored value, as it probably did not change.
+ */
+export function mergePublicAddresses(
+  stored: StoredPublicAddresses,
+  outcome: DualStackOutcome<{ details: IpDetails }>,
+  time: Date
+): StoredPublicAddresses {
+  const addressOf = (family: IpFamily): string | null => {
+    const result = outcome[family];
+    if (result.ok) {
+      return result.value.details.ip;
+    }
+    return result.noConnectivity ? null : stored[family === 'IPv4' ? 'ipv4' : 'ipv6'];
+  };
+  const ipv6 = outcome.IPv6;
+  return {
+    ipv4: addressOf('IPv4'),
+    ipv6: addressOf('IPv6'),
+    ipv6Connectivity: ipv6.ok ? true : ipv6.noConnectivity ? false : stored.ipv6Connectivity,
+    lastChecked: time.toISOString()
+  };
+}
+
+// Redirects are followed like fetch() would, up to this many
+const MAX_REDIRECTS = 3;
+
+// Resolver answers meaning the host has no address of the requested IP version
+const NO_ADDRESS_CODES = ['ENOTFOUND', 'ENODATA'];
+
+/**
+ * GET a JSON object. Node's http(s) client is used instead of fetch() as it can be held to one IP version;
+ * a dual-stack service would otherwise answer over whichever version the connection happened to use.
+ */
+async function fetchJson(provider: string, url: string, timeoutMs: number, family?: IpFamily, redirects = 0): Promise<Record<string, unknown>> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch (error) {
+    throw new IpLookupError('network', provider, `invalid URL ${url}`);
+  }
+  const client = target.protocol === 'http:' ? http : https;
+  const options: https.RequestOptions = { headers: { Accept: 'application/json' } };
+  if (family) {
+    options.family = family === 'IPv6' ? 6 : 4;
+  }
+
+  const response = await new Promise<{ status: number; location?: string; body: string }>((resolve, reject) => {
+    let timedOut = false;
+    const request = client.get(target, options, res => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => body += chunk);
+      res.on('end', () => resolve({ status: res.statusCode || 0, location: res.headers.location, body }));
+      res.on('error', reject);
+    });
+    const timer = setTimeout(() => {
+      timedOut = true;
+      request.destroy();
+    }, timeoutMs);
+    request.on('close', () => clearTimeout(timer));
+    request.on('error', (error: NodeJS.ErrnoException) => {
+      if (timedOut) {
+        reject(new IpLookupError('timeout', provider, `${timeoutMs} ms`));
+      } else if (family && error.code && NO_ADDRESS_CODES.includes(error.code)) {
+        reject(new IpLookupError('unsupported', provider, `${target.host} has no ${family} address`));
+      } else {
+        reject(new IpLookupError('network', provider, error.message));
+      }
+    });
+  });
+
+  if (response.status >= 300 && response.status < 400 && response.location && redirects < MAX_REDIRECTS) {
+    return fetchJson(provider, new URL(response.location, target).toString(), timeoutMs, family, redirects + 1);
+  }
+  if (response.status === 429) {
+    throw new IpLookupError('rateLimited', provider, undefined, response.status);
+  }
+  if (response.status < 200 || response.status >= 300) {
+    throw new IpLookupError('http', provider, `HTTP ${response.status}`, response.status);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(response.body);
+  } catch (error) {
+    throw new IpLookupError('invalidResponse', provider, 'not JSON');
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new IpLookupError('invalidResponse', provider, 'not a JSON object');
+  }
+  return data as Record<string, unknown>;
+}
+
+const detailFields: IpDetailsField[] = ['ip', 'city', 'region', 'country', 'timezone', 'org', 'loc', 'postal'];
+
+function mapFields(provider: string, data: Record<string, unknown>, fields: Partial<Record<IpDetailsField, string>>): IpDetails {
+  const details: IpDetails = { ip: '' };
+  for (const field of detailFields) {
+    const value = valueAt(data, fields[field] || field);
+    if (typeof value === 'string' || typeof value === 'number') {
+      details[field] = String(value);
+    }
+  }
+  details.ip = requireIp(provider, details.ip);
+  return details;
+}
+
+function valueAt(data: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined,
+    data
+  );
+}
+
+function requireIp(provider: string, value: unknown): string {
+  if (typeof value !== 'string' || !/^[0-9a-f.:]+$/i.test(value.trim())) {
+    throw new IpLookupError('invalidResponse', provider, 'no IP address in the response');
+  }
+  return value.trim();
+}
+
+function joinUrl(baseUrl: string, path: string): string {
+  return baseUrl.replace(/\/+$/, '') + path;
+}
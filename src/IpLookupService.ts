@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+import {
+  CustomJsonProvider,
+  DualStackOutcome,
+  IPIFY_BASE_URL,
+  IPIFY_IPV6_BASE_URL,
+  IPINFO_BASE_URL,
+  IPINFO_IPV6_BASE_URL,
+  IpDetails,
+  IpFamily,
+  IpLookupError,
+  IpLookupProvider,
+  IpifyProvider,
+  IpinfoProvider,
+  StoredPublicAddresses,
+  ipFamilyOf,
+  lookupDualStack,
+  lookupIpDetails,
+  mergePublicAddresses
+} from './IpLookup';
+
+export type IpLookupProviderId = 'ipify' | 'ipinfo' | 'custom';
+
+/**
+ * A lookup result with the service that answered it
+ */
+export interface IpLookupResult {
+  details: IpDetails;
+  provider: string;
+}
+
+export interface IpLookupEvent extends IpLookupResult {
+  /** Whether the machine's own public address was looked up, rather than details of a given address */
+  ownAddress: boolean;
+  /** The IP version the own address was looked up over */
+  family?: IpFamily;
+}
+
+export type DualStackResult = DualStackOutcome<IpLookupResult>;
+
+/**
+ * Looks up IP information with the providers chosen in the `whoAmI.ipLookup` settings.
+ * The settings are read for every lookup, so changes apply right away.
+ */
+export class IpLookupService {
+  private _onDidLookup: vscode.EventEmitter<IpLookupEvent> = new vscode.EventEmitter<IpLookupEvent>();
+  /** Fires after every successful lookup, whoever asked for it */
+  readonly onDidLookup: vscode.Event<IpLookupEvent> = this._onDidLookup.event;
+
+  /**
+   * The public IPv4 and IPv6 addresses of this machine, looked up side by side
+   */
+  async lookupOwnAddresses(): Promise<DualStackResult> {
+    const providerId = this.setting<IpLookupProviderId>('provider', 'ipify');
+    return lookupDualStack({
+      IPv4: () => this.lookup(providerId, undefined, 'IPv4'),
+      IPv6: () => this.lookup(providerId, undefined, 'IPv6')
+    });
+  }
+
+  /**
+   * Location and network details of an address
+   */
+  async lookupDetails(ipAddress: string): Promise<IpLookupResult> {
+    return this.lookup(this.setting<IpLookupProviderId>('detailsProvider', 'ipinfo'), ipAddress);
+  }
+
+  private async lookup(providerId: IpLookupProviderId, ipAddress: string | undefined, family?: IpFamily): Promise<IpLookupResult> {
+    const provider = this.createProvider(providerId, family);
+    const details = await lookupIpDetails(provider, ipAddress, {
+      timeoutMs: this.setting('timeoutMs', 5000),
+      retries: this.setting('retries', 2),
+      retryDelayMs: 500
+    }, family);
+    // The connection is held to the family, but a service behind a proxy may still report the other one
+    if (family && ipFamilyOf(details.ip) !== family) {
+      throw new IpLookupError('wrongFamily', provider.label, `${details.ip} instead of an ${family} address`);
+    }
+    console.log(`Looked up ${ipAddress || `the public ${family || 'IP'} address`} with ${provider.label}`);
+    this._onDidLookup.fire({ details, provider: provider.label, ownAddress: ipAddress === undefined, family });
+    return { details, provider: provider.label };
+  }
+
+  private createProvider(providerId: IpLookupProviderId, family?: IpFamily): IpLookupProvider {
+    const baseUrls = this.setting<Record<string, string>>('baseUrls', {});
+    const ipv6 = family === 'IPv6';
+    switch (providerId) {
+      case 'ipinfo':
+        return new IpinfoProvider(ipv6 ? baseUrls.ipinfo6 || IPINFO_IPV6_BASE_URL : baseUrls.ipinfo || IPINFO_BASE_URL);
+      case 'custom': {
+        // Lookups are held to their IP version, so a dual-stack endpoint serves both
+        const url = (ipv6 && this.setting('custom.ipv6Url', '')) || this.setting('custom.url', '');
+        if (!url) {
+          throw new Error('Set whoAmI.ipLookup.custom.url to use the custom IP lookup.');
+        }
+        return new CustomJsonProvider(url, this.setting('custom.fields', {}));
+      }
+      default:
+        return new IpifyProvider(ipv6 ? baseUrls.ipify6 || IPIFY_IPV6_BASE_URL : baseUrls.ipify || IPIFY_BASE_URL);
+    }
+  }
+
+  private setting<T>(key: string, defaultValue: T): T {
+    return vscode.workspace.getConfiguration('whoAmI.ipLookup').get<T>(key, defaultValue);
+  }
+}
+
+/**
+ * Keep the result of a dual-stack lookup in the user settings: both addresses in `whoAmI.publicAddresses`,
+ * and the IPv4 address, or the IPv6 one without IPv4, in `public_ip_address` for pages reading it
+ */
+export async function savePublicAddresses(result: DualStackResult): Promise<StoredPublicAddresses> {
+  const config = vscode.workspace.getConfiguration();
+  const stored = mergePublicAddresses(getStoredPublicAddresses(), result, new Date());
+  await config.update('whoAmI.publicAddresses', stored, vscode.ConfigurationTarget.Global);
+  const primary = stored.ipv4 || stored.ipv6;
+  if (primary) {
+    await config.update('public_ip_address', primary, vscode.ConfigurationTarget.Global);
+  }
+  return stored;
+}
+
+export function getStoredPublicAddresses(): StoredPublicAddresses {
+  const stored = vscode.workspace.getConfiguration('whoAmI').get<Partial<StoredPublicAddresses>>('publicAddresses', {});
+  return {
+    ipv4: stored.ipv4 ?? null,
+    ipv6: stored.ipv6 ?? null,
+    ipv6Connectivity: stored.ipv6Connectivity ?? null,
+    lastChecked: stored.lastChecked ?? null
+  };
+}
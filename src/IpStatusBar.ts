@@ -0,0 +1,264 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { IpHistoryEntry, currentIpEntry, describeIpEntry, isIpStale } from './IpHistory';
+import { IpHistoryStore } from './IpHistoryView';
+import { IpLookupService, savePublicAddresses } from './IpLookupService';
+
+// Network interfaces have no change event, so they are compared this often
+const NETWORK_POLL_MS = 15 * 1000;
+
+// Interfaces often change several times while a connection comes up, e.g. when a VPN connects
+const NETWORK_SETTLE_MS = 3 * 1000;
+
+/**
+ * Status bar entry with the current public IP address: the IPv4 address, or the IPv6 address without IPv4.
+ * The address comes from the IP history, so lookups made anywhere show up; the entry refreshes it on an
+ * interval, after network changes and when asked to.
+ */
+class IpStatusBar implements vscode.Disposable {
+  private item = vscode.window.createStatusBarItem('whoAmI.publicIp', vscode.StatusBarAlignment.Right, 100);
+  private refreshTimer: NodeJS.Timeout | undefined;
+  private networkTimer: NodeJS.Timeout | undefined;
+  private settleTimer: NodeJS.Timeout | undefined;
+  private networkSignature = networkSignature();
+  private refreshing = false;
+  private lastError: string | undefined;
+
+  constructor(private ipLookup: IpLookupService, private history: IpHistoryStore) {
+    this.item.name = 'Who Am I: Public IP Address';
+    this.item.command = 'helloworld.showIpStatusActions';
+  }
+
+  /**
+   * Show or hide the entry and restart its timers after a settings change
+   */
+  configure(): void {
+    this.stopTimers();
+    if (!this.enabled) {
+      this.item.hide();
+      return;
+    }
+
+    const intervalMinutes = setting('refreshIntervalMinutes', 15);
+    if (intervalMinutes > 0) {
+      this.refreshTimer = setInterval(() => this.refresh(), intervalMinutes * 60 * 1000);
+    }
+    this.networkTimer = setInterval(() => this.checkNetwork(), NETWORK_POLL_MS);
+    this.update();
+    this.item.show();
+
+    if (!this.shownEntry || this.isStale()) {
+      this.refresh();
+    }
+  }
+
+  /**
+   * Off by default, as the entry looks up the address in the background without being asked
+   */
+  get enabled(): boolean {
+    return setting('enabled', false);
+  }
+
+  /**
+   * The entry the status bar shows
+   */
+  get shownEntry(): IpHistoryEntry | undefined {
+    const entries = this.history.entries;
+    return currentIpEntry(entries, 'IPv4') ?? currentIpEntry(entries, 'IPv6');
+  }
+
+  /**
+   * Look up both public addresses now and save them; the history reports the result back to the entry
+   */
+  async refresh(): Promise<void> {
+    if (this.refreshing) {
+      return;
+    }
+    this.refreshing = true;
+    this.update();
+    try {
+      const result = await this.ipLookup.lookupOwnAddresses();
+      if (!result.IPv4.ok && !result.IPv6.ok) {
+        throw result.IPv4.error;
+      }
+      await savePublicAddresses(result);
+      this.lastError = undefined;
+
+      // Providers of the own address may not report a location, so look it up once per address
+      const shown = result.IPv4.ok ? result.IPv4.value.details : result.IPv6.ok ? result.IPv6.value.details : undefined;
+      const latest = this.shownEntry;
+      const knownCountry = latest?.ip === shown?.ip && latest?.country;
+      if (shown && setting('showCountry', true) && !shown.country && !knownCountry) {
+        // The address is known either way; the entry keeps showing it without a country until the next refresh
+        await this.ipLookup.lookupDetails(shown.ip).catch(error => console.error('Looking up the country failed:', error));
+      }
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      console.error('Background IP lookup failed:', error);
+    } finally {
+      this.refreshing = false;
+      this.update();
+    }
+  }
+
+  /**
+   * Whether the shown address was not confirmed for two refresh intervals. Without background
+   * refresh the address is never considered stale.
+   */
+  isStale(): boolean {
+    const latest = this.shownEntry;
+    const intervalMinutes = setting('refreshIntervalMinutes', 15);
+    return !!latest && intervalMinutes > 0 && isIpStale(latest, new Date(), 2 * intervalMinutes);
+  }
+
+  update(): void {
+    const latest = this.shownEntry;
+    const country = setting('showCountry', true) && latest?.country ? ` (${latest.country})` : '';
+    const warning = this.lastError !== undefined || this.isStale();
+    const icon = this.refreshing ? '$(sync~spin)' : warning ? '$(warning)' : '$(globe)';
+    this.item.text = `${icon} ${latest ? `${latest.ip}${country}` : 'Public IP unknown'}`;
+    this.item.backgroundColor = warning ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+
+    const tooltip = new vscode.MarkdownString();
+    if (latest) {
+      tooltip.appendMarkdown(`**Public IP address:** ${latest.ip}  \n`);
+      const ipv6 = currentIpEntry(this.history.entries, 'IPv6');
+      if (ipv6 && ipv6.ip !== latest.ip) {
+        tooltip.appendMarkdown(`**Public IPv6 address:** ${ipv6.ip}  \n`);
+      }
+      const network = describeIpEntry(latest);
+      if (network) {
+        tooltip.appendText(network);
+        tooltip.appendMarkdown('  \n');
+      }
+      tooltip.appendMarkdown(`Last confirmed ${new Date(latest.lastSeen).toLocaleString()} by ${latest.provider}`);
+    }
+    if (this.lastError !== undefined) {
+      tooltip.appendMarkdown('\n\n$(warning) ');
+      tooltip.appendText(`The last lookup failed: ${this.lastError}`);
+    } else if (this.isStale()) {
+      tooltip.appendMarkdown('\n\n$(warning) The address has not been confirmed recently and may be out of date.');
+    }
+    tooltip.supportThemeIcons = true;
+    this.item.tooltip = tooltip;
+  }
+
+  dispose(): void {
+    this.stopTimers();
+    this.item.dispose();
+  }
+
+  private checkNetwork(): void {
+    const signature = networkSignature();
+    if (signature === this.networkSignature) {
+      return;
+    }
+    this.networkSignature = signature;
+    console.log('Network interfaces changed, refreshing the public IP address');
+    clearTimeout(this.settleTimer);
+    this.settleTimer = setTimeout(() => this.refresh(), NETWORK_SETTLE_MS);
+  }
+
+  private stopTimers(): void {
+    clearInterval(this.refreshTimer);
+    clearInterval(this.networkTimer);
+    clearTimeout(this.settleTimer);
+  }
+}
+
+/**
+ * Register the status bar entry with the public IP address and the actions behind it
+ */
+export function registerIpStatusBar(context: vscode.ExtensionContext, ipLookup: IpLookupService, history: IpHistoryStore) {
+  const statusBar = new IpStatusBar(ipLookup, history);
+  context.subscriptions.push(statusBar);
+  statusBar.configure();
+
+  context.subscriptions.push(
+    history.onDidChange(() => statusBar.update()),
+
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('whoAmI.statusBar')) {
+        statusBar.configure();
+      }
+    }),
+
+    // Timers do not run while the machine sleeps, so catch up when the user comes back
+    vscode.window.onDidChangeWindowState((state) => {
+      if (state.focused && statusBar.enabled && statusBar.isStale()) {
+        statusBar.refresh();
+      }
+    }),
+
+    vscode.commands.registerCommand('helloworld.showIpStatusActions', async () => {
+      const ipAddress = statusBar.shownEntry?.ip;
+      const actions = [
+        ...(ipAddress ? [{ label: '$(copy) Copy IP Address', description: ipAddress, action: 'copy' }] : []),
+        { label: '$(refresh) Refresh Now', action: 'refresh' },
+        ...(ipAddress ? [{ label: '$(info) Show Details', action: 'details' }] : []),
+        { label: '$(preview) Open as WebView', action: 'webview' },
+        { label: '$(history) Show IP History', action: 'history' }
+      ];
+      const choice = await vscode.window.showQuickPick(actions, { placeHolder: 'Public IP address' });
+
+      switch (choice?.action) {
+        case 'copy':
+          await vscode.env.clipboard.writeText(ipAddress!);
+          vscode.window.showInformationMessage(`Copied ${ipAddress} to the clipboard.`);
+          break;
+        case 'refresh':
+          await statusBar.refresh();
+          break;
+        case 'details':
+          await showIpDetails(ipLookup, ipAddress!);
+          break;
+        case 'webview':
+          await vscode.commands.executeCommand('helloworld.openAsWebview');
+          break;
+        case 'history':
+          await vscode.commands.executeCommand('helloworld.showIpHistory');
+          break;
+      }
+    })
+  );
+}
+
+async function showIpDetails(ipLookup: IpLookupService, ipAddress: string) {
+  try {
+    const { details, provider } = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Window, title: `Looking up ${ipAddress}` },
+      () => ipLookup.lookupDetails(ipAddress)
+    );
+    const lines = [
+      ['City', details.city],
+      ['Region', details.region],
+      ['Country', details.country],
+      ['Postal Code', details.postal],
+      ['Timezone', details.timezone],
+      ['ISP', details.org],
+      ['Coordinates', details.loc]
+    ].map(([label, value]) => `${label}: ${value || 'Unknown'}`);
+    vscode.window.showInformationMessage(
+      `${details.ip}`,
+      { modal: true, detail: `${lines.join('\n')}\n\nReported by ${provider}` }
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to look up details of ${ipAddress}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function setting<T>(key: string, defaultValue: T): T {
+  return vscode.workspace.getConfiguration('whoAmI.statusBar').get<T>(key, defaultValue);
+}
+
+/**
+ * The machine's external interface addresses, which change when it joins another network or a VPN connects
+ */
+function networkSignature(): string {
+  return Object.entries(os.networkInterfaces())
+    .flatMap(([name, addresses]) => (addresses || [])
+      .filter(address => !address.internal)
+      .map(address => `${name}=${address.address}`))
+    .sort()
+    .join(',');
+}
@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { LocalNetworkReport, buildInterfaceReports, collectProxySettings, formatNetworkReport } from './NetworkReport';
+
+// VS Code settings that change how the extension host reaches the network
+const PROXY_SETTINGS = ['http.proxy', 'http.noProxy', 'http.proxySupport', 'http.proxyStrictSSL'];
+
+/**
+ * Read the hostname, network interfaces and proxy configuration of the machine the extension host runs on,
+ * which is the container or remote machine in remote development
+ */
+export function readNetworkReport(): LocalNetworkReport {
+  const config = vscode.workspace.getConfiguration();
+  const settings: Record<string, unknown> = {};
+  for (const key of PROXY_SETTINGS) {
+    // Only settings the user changed, defaults say nothing about the setup
+    const inspected = config.inspect(key);
+    settings[key] = inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue;
+  }
+
+  return {
+    hostname: os.hostname(),
+    interfaces: buildInterfaceReports(os.networkInterfaces()),
+    proxies: collectProxySettings(settings, process.env)
+  };
+}
+
+/**
+ * Register the command that opens the local network report as a Markdown document
+ */
+export function registerNetworkReportCommand(context: vscode.ExtensionContext) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('helloworld.showNetworkReport', async () => {
+      try {
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: formatNetworkReport(readNetworkReport()) });
+        await vscode.window.showTextDocument(document, { preview: false });
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to read the local network setup: ${error instanceof Error ? error.message : error}`);
+      }
+    })
+  );
+}
@@ -0,0 +1,230 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { CONTENTS_FOLDER, Snapshot, SnapshotIndex, SnapshotStorage, fileKeyOf, findLegacyBackups, hashContent, selectSnapshotsToPrune } from './Snapshots';
+
+const MIGRATED_FOLDERS_KEY = 'whoAmI.migratedBackupFolders';
+
+// Files whose originals the extension backs up, relative to a workspace folder
+export const BACKED_UP_FILES = [
+  'who_am_i.html',
+  'who_am_i_workspace/who_am_i.html',
+  'who_am_i_workspace/who_am_i.css',
+  'who_am_i_workspace/who_am_i.js'
+];
+
+/**
+ * Versions of workspace files, kept in the extension's storage. The index lists the snapshots; each distinct
+ * content is stored once under its hash, so unchanged files cost nothing to snapshot again.
+ */
+export class SnapshotStore {
+  private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  private index: SnapshotIndex;
+  // Index updates are read-modify-write, so run them one after another
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly storageUri: vscode.Uri) {
+    this.index = new SnapshotIndex(folderStorage(storageUri));
+  }
+
+  private contentUri(hash: string): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageUri, CONTENTS_FOLDER, hash);
+  }
+
+  /**
+   * Snapshots of the file, or of every file when none is given, newest first
+   */
+  async list(fileUri?: vscode.Uri): Promise<Snapshot[]> {
+    const snapshots = await this.index.load();
+    const fileKey = fileUri && fileKeyOf(locate(fileUri));
+    return snapshots
+      .filter(snapshot => !fileKey || fileKeyOf(snapshot) === fileKey)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  /**
+   * Snapshots of the files in the workspace folder, newest first
+   */
+  async listFolder(folder: vscode.WorkspaceFolder): Promise<Snapshot[]> {
+    return (await this.list()).filter(snapshot => snapshot.folderUri === folder.uri.toString());
+  }
+
+  async find(id: string): Promise<Snapshot | undefined> {
+    return (await this.index.load()).find(snapshot => snapshot.id === id);
+  }
+
+  /**
+   * The file's first snapshot, taken before the extension changed it
+   */
+  async original(fileUri: vscode.Uri): Promise<Snapshot | undefined> {
+    const snapshots = await this.list(fileUri);
+    return snapshots[snapshots.length - 1];
+  }
+
+  async getContent(snapshot: Snapshot): Promise<string> {
+    const bytes = await vscode.workspace.fs.readFile(this.contentUri(snapshot.hash));
+    return Buffer.from(bytes).toString('utf8');
+  }
+
+  /**
+   * Save a version of the file. When its latest snapshot has the same content, that one is returned instead.
+   * `timestamp` backdates the snapshot, for versions saved before they were imported.
+   */
+  takeSnapshot(fileUri: vscode.Uri, content: string, label?: string, timestamp?: Date): Promise<Snapshot> {
+    return this.enqueue(async () => {
+      const snapshots = await this.index.load();
+      const location = locate(fileUri);
+      const fileSnapshots = snapshots.filter(snapshot => fileKeyOf(snapshot) === fileKeyOf(location));
+      const hash = hashContent(content);
+      const latest = [...fileSnapshots].sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0];
+      if (!timestamp && latest?.hash === hash) {
+        return latest;
+      }
+
+      await vscode.workspace.fs.writeFile(this.contentUri(hash), Buffer.from(content, 'utf8'));
+      const snapshot: Snapshot = {
+        id: `${Date.now().toString(36)}-${crypto.randomBytes(4).toString('hex')}`,
+        ...location,
+        hash,
+        timestamp: (timestamp || new Date()).toISOString(),
+        label,
+        size: content.length
+      };
+      fileSnapshots.push(snapshot);
+
+      const maxPerFile = vscode.workspace.getConfiguration('whoAmI').get<number>('backups.maxSnapshotsPerFile', 20);
+      const pruned = new Set(selectSnapshotsToPrune(fileSnapshots, maxPerFile).map(item => item.id));
+      await this.save([...snapshots, snapshot].filter(item => !pruned.has(item.id)));
+      console.log(`Created snapshot of ${location.relativePath}${pruned.size ? `, pruned ${pruned.size} old one(s)` : ''}`);
+      return snapshot;
+    });
+  }
+
+  delete(toDelete: readonly Snapshot[]): Promise<void> {
+    const ids = new Set(toDelete.map(snapshot => snapshot.id));
+    return this.enqueue(async () => {
+      const snapshots = await this.index.load();
+      await this.save(snapshots.filter(snapshot => !ids.has(snapshot.id)));
+    });
+  }
+
+  /**
+   * The file a snapshot was taken of
+   */
+  fileUriOf(snapshot: Snapshot): vscode.Uri {
+    return snapshot.folderUri
+      ? vscode.Uri.joinPath(vscode.Uri.parse(snapshot.folderUri), ...snapshot.relativePath.split('/'))
+      : vscode.Uri.file(snapshot.relativePath);
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async save(snapshots: Snapshot[]) {
+    await this.index.save(snapshots);
+    this._onDidChange.fire();
+  }
+}
+
+/**
+ * Move the backups that older versions kept in the `whoAmI.backup_<name>` settings into the snapshot store
+ * and remove them from the settings. Each folder is migrated once.
+ */
+export async function migrateBackupSettings(
+  context: vscode.ExtensionContext,
+  store: SnapshotStore,
+  folders: readonly vscode.WorkspaceFolder[]
+) {
+  const migrated = context.workspaceState.get<string[]>(MIGRATED_FOLDERS_KEY, []);
+
+  for (const folder of folders.filter(folder => !migrated.includes(folder.uri.toString()))) {
+    try {
+      const config = vscode.workspace.getConfiguration('whoAmI', folder.uri);
+      const fileNames = [...new Set(BACKED_UP_FILES.map(file => path.posix.basename(file)))];
+      const legacy = findLegacyBackups(fileNames, key => config.inspect(key));
+
+      for (const { fileName, content, timestamp } of legacy.backups) {
+        // The settings only kept the file name, so prefer the known file of that name that exists
+        const candidates = BACKED_UP_FILES.filter(file => path.posix.basename(file) === fileName);
+        let relativePath = candidates[0] || fileName;
+        for (const candidate of candidates) {
+          if (await exists(vscode.Uri.joinPath(folder.uri, ...candidate.split('/')))) {
+            relativePath = candidate;
+            break;
+          }
+        }
+
+        await store.takeSnapshot(
+          vscode.Uri.joinPath(folder.uri, ...relativePath.split('/')),
+          content,
+          'Original (migrated from settings)',
+          timestamp && !isNaN(Date.parse(timestamp)) ? new Date(timestamp) : new Date(0)
+        );
+        console.log(`Migrated backup of ${fileName} in ${folder.name}`);
+      }
+
+      for (const { key, level } of legacy.settings) {
+        const target = level === 'workspaceFolder' ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace;
+        await config.update(key, undefined, target);
+      }
+
+      migrated.push(folder.uri.toString());
+      await context.workspaceState.update(MIGRATED_FOLDERS_KEY, migrated);
+    } catch (error) {
+      console.error(`Error migrating the backups of ${folder.name}:`, error);
+      vscode.window.showErrorMessage(`Error migrating the backups of ${folder.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+/**
+ * The files under a folder of the extension's storage
+ */
+function folderStorage(storageUri: vscode.Uri): SnapshotStorage {
+  const uriOf = (relativePath: string) => vscode.Uri.joinPath(storageUri, ...relativePath.split('/').filter(part => part));
+  return {
+    readFile: async (relativePath) => {
+      try {
+        return Buffer.from(await vscode.workspace.fs.readFile(uriOf(relativePath))).toString('utf8');
+      } catch (error) {
+        if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+    writeFile: async (relativePath, text) => {
+      await vscode.workspace.fs.writeFile(uriOf(relativePath), Buffer.from(text, 'utf8'));
+    },
+    rename: async (from, to) => {
+      await vscode.workspace.fs.rename(uriOf(from), uriOf(to));
+    },
+    readDirectory: async (relativePath) => {
+      const entries = await vscode.workspace.fs.readDirectory(uriOf(relativePath)).then(entries => entries, () => []);
+      return entries.map(([name]) => name);
+    },
+    delete: async (relativePath) => {
+      await vscode.workspace.fs.delete(uriOf(relativePath));
+    }
+  };
+}
+
+function locate(fileUri: vscode.Uri): Pick<Snapshot, 'folderUri' | 'relativePath'> {
+  const folder = vscode.workspace.getWorkspaceFolder(fileUri);
+  if (!folder) {
+    return { relativePath: fileUri.fsPath };
+  }
+  return {
+    folderUri: folder.uri.toString(),
+    relativePath: path.relative(folder.uri.fsPath, fileUri.fsPath).split(path.sep).join('/')
+  };
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  return vscode.workspace.fs.stat(uri).then(() => true, () => false);
+}
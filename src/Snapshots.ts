@@ -0,0 +1,159 @@
+import * as crypto from 'crypto';
+
+/**
+ * A saved version of a workspace file. The content is stored separately, once per distinct hash.
+ */
+export interface Snapshot {
+  id: string;
+  /** Workspace folder the file belongs to, undefined for files outside the workspace */
+  folderUri?: string;
+  /** Path relative to the workspace folder with `/` separators, or the absolute path outside the workspace */
+  relativePath: string;
+  /** SHA-256 of the content */
+  hash: string;
+  /** ISO 8601 time the snapshot was taken */
+  timestamp: string;
+  label?: string;
+  /** Content length in characters */
+  size: number;
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+/**
+ * Identifies the file a snapshot belongs to
+ */
+export function fileKeyOf(snapshot: Pick<Snapshot, 'folderUri' | 'relativePath'>): string {
+  return `${snapshot.folderUri || ''}|${snapshot.relativePath}`;
+}
+
+/**
+ * Snapshots of one file that exceed the retention limit, oldest first. The file's first snapshot is its
+ * original and its latest one was just taken, so both are always kept.
+ */
+export function selectSnapshotsToPrune(fileSnapshots: Snapshot[], maxPerFile: number): Snapshot[] {
+  const oldestFirst = [...fileSnapshots].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const later = oldestFirst.slice(1);
+  const excess = later.length - Math.max(1, maxPerFile - 1);
+  return excess > 0 ? later.slice(0, excess) : [];
+}
+
+/**
+ * The files of the snapshot store, by `/`-separated path relative to its storage folder
+ */
+export interface SnapshotStorage {
+  /** The file's text, or undefined when it does not exist */
+  readFile(path: string): Promise<string | undefined>;
+  writeFile(path: string, text: string): Promise<void>;
+  rename(from: string, to: string): Promise<void>;
+  /** Names of the files in the folder, none when it does not exist */
+  readDirectory(path: string): Promise<string[]>;
+  delete(path: string): Promise<void>;
+}
+
+const INDEX_FILE = 'index.json';
+export const CONTENTS_FOLDER = 'contents';
+// Indexes that could not be read are renamed to this, so they can be repaired instead of overwritten
+const DAMAGED_INDEX = /^index\.corrupt-[^/]*\.json$/;
+
+/**
+ * The snapshots listed in `index.json`. Saving deletes the contents no snapshot refers to any more, except
+ * while a damaged index is set aside: the snapshots it listed are unknown, so all contents are kept until it
+ * is repaired or removed.
+ */
+export class SnapshotIndex {
+  private snapshots: Snapshot[] | undefined;
+
+  constructor(private readonly storage: SnapshotStorage) {}
+
+  async load(): Promise<Snapshot[]> {
+    if (!this.snapshots) {
+      try {
+        const text = await this.storage.readFile(INDEX_FILE);
+        this.snapshots = text === undefined ? [] : parseIndex(text);
+      } catch (error) {
+        console.error('Error reading the snapshot index, setting it aside:', error);
+        // Starting over on top of the index would drop every content it refers to on the next save
+        await this.storage.rename(INDEX_FILE, `index.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+        this.snapshots = [];
+      }
+    }
+    return this.snapshots;
+  }
+
+  async save(snapshots: Snapshot[]): Promise<void> {
+    await this.storage.writeFile(INDEX_FILE, JSON.stringify(snapshots, null, 2));
+    this.snapshots = snapshots;
+
+    if ((await this.storage.readDirectory('')).some(name => DAMAGED_INDEX.test(name))) {
+      return;
+    }
+    const hashes = new Set(snapshots.map(snapshot => snapshot.hash));
+    for (const name of await this.storage.readDirectory(CONTENTS_FOLDER)) {
+      if (!hashes.has(name)) {
+        await this.storage.delete(`${CONTENTS_FOLDER}/${name}`);
+      }
+    }
+  }
+}
+
+function parseIndex(text: string): Snapshot[] {
+  const snapshots: unknown = JSON.parse(text);
+  const valid = Array.isArray(snapshots) && snapshots.every(snapshot =>
+    typeof snapshot === 'object' && snapshot !== null && typeof snapshot.id === 'string' && typeof snapshot.hash === 'string');
+  if (!valid) {
+    throw new Error('The snapshot index is not a list of snapshots.');
+  }
+  return snapshots;
+}
+
+/**
+ * What `WorkspaceConfiguration.inspect` reports for a setting, as far as the old backups used it
+ */
+export interface InspectedSetting {
+  workspaceValue?: unknown;
+  workspaceFolderValue?: unknown;
+}
+
+export type SettingLevel = 'workspace' | 'workspaceFolder';
+
+/**
+ * Backups kept in the `whoAmI.backup_<file name>` settings before the snapshot store existed
+ */
+export interface LegacyBackups {
+  backups: { fileName: string; content: string; timestamp?: string }[];
+  /** Every setting holding part of a backup, with the level it is set at, to clear once migrated */
+  settings: { key: string; level: SettingLevel }[];
+}
+
+/**
+ * Read the old backups of the given file names. Each key is inspected on its own: the file names contain
+ * dots, so reading the whole section would nest `backup_who_am_i.html` as `backup_who_am_i: { html }`.
+ * Folder values win over workspace values, as they did when the backups were read.
+ */
+export function findLegacyBackups(fileNames: string[], inspect: (key: string) => InspectedSetting | undefined): LegacyBackups {
+  const result: LegacyBackups = { backups: [], settings: [] };
+  for (const fileName of fileNames) {
+    const contentKey = `backup_${fileName}`;
+    const values: Record<string, unknown> = {};
+    for (const key of [contentKey, `${contentKey}_timestamp`]) {
+      const inspected = inspect(key);
+      const levels: [SettingLevel, unknown][] = [['workspaceFolder', inspected?.workspaceFolderValue], ['workspace', inspected?.workspaceValue]];
+      for (const [level, value] of levels) {
+        if (value !== undefined && value !== null) {
+          result.settings.push({ key, level });
+          values[key] = values[key] ?? value;
+        }
+      }
+    }
+
+    const content = values[contentKey];
+    const timestamp = values[`${contentKey}_timestamp`];
+    if (typeof content === 'string' && content) {
+      result.backups.push({ fileName, content, ...(typeof timestamp === 'string' ? { timestamp } : {}) });
+    }
+  }
+  return result;
+}
@@ -1,201 +1,580 @@
-import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as path from 'path';
-
-export class DOMVisualizerProvider implements vscode.TreeDataProvider<Dependency> {
-  private _onDidChangeTreeData: vscode.EventEmitter<Dependency | undefined | null | void> = new vscode.EventEmitter<Dependency | undefined | null | void>();
-  readonly onDidChangeTreeData: vscode.Event<Dependency | undefined | null | void> = this._onDidChangeTreeData.event;
-
-  constructor(private workspaceRoot: string) {}
-
-  refresh(): void {
-    this._onDidChangeTreeData.fire();
-  }
-
-  getTreeItem(element: Dependency): vscode.TreeItem {
-    return element;
-  }
-
-  getChildren(element?: Dependency): Thenable<Dependency[]> {
-    console.log('TreeDataProvider.getChildren called with:', element?.label || 'root');
-    console.log('Workspace root:', this.workspaceRoot);
-    
-    if (!this.workspaceRoot) {
-      console.log('No workspace root found');
-      vscode.window.showInformationMessage('No workspace found');
-      return Promise.resolve([]);
-    }
-
-    if (element) {
-      // Return child elements if any
-      return Promise.resolve(element.children || []);
-    } else {
-      // Look for who_am_i.html instead of package.json
-      const htmlFilePath = path.join(this.workspaceRoot, 'who_am_i.html');
-      console.log('Looking for who_am_i.html at:', htmlFilePath);
-      
-      if (this.pathExists(htmlFilePath)) {
-        console.log('who_am_i.html found, parsing HTML structure');
-        const htmlElements = this.parseHTMLFile(htmlFilePath);
-        console.log('Found HTML elements:', htmlElements.length);
-        return Promise.resolve(htmlElements);
-      } else {
-        console.log('No who_am_i.html found in workspace');
-        vscode.window.showInformationMessage('Workspace has no who_am_i.html');
-        return Promise.resolve([]);
-      }
-    }
-  }
-
-  /**
-   * Parse HTML file and extract DOM elements with IDs
-   */
-  private parseHTMLFile(htmlFilePath: string): Dependency[] {
-    try {
-      const htmlContent = fs.readFileSync(htmlFilePath, 'utf8');
-      return this.extractHTMLElements(htmlContent);
-    } catch (error) {
-      console.error('Error reading HTML file:', error);
-      return [];
-    }
-  }
-
-  private extractHTMLElements(htmlContent: string): Dependency[] {
-    console.log('HTML content length:', htmlContent.length);
-    
-    // Parse HTML into a hierarchical structure
-    const rootElements = this.parseHTMLHierarchy(htmlContent);
-    
-    console.log(`Built hierarchical tree with ${rootElements.length} root elements`);
-    
-    return rootElements;
-  }
-
-  private parseHTMLHierarchy(htmlContent: string): Dependency[] {
-    // Stack to track parent elements during parsing
-    const stack: Dependency[] = [];
-    const roots: Dependency[] = [];
-    
-    // Self-closing tags that don't have children
-    const selfClosingTags = new Set(['img', 'br', 'hr', 'input', 'meta', 'link', 'source', 'area', 'base', 'col', 'embed', 'track', 'wbr']);
-    
-    // Find all opening and closing tags
-    const tagRegex = /<\/?(\w+)([^>]*)>/g;
-    let match;
-    
-    while ((match = tagRegex.exec(htmlContent)) !== null) {
-      const fullMatch = match[0];
-      const tagName = match[1].toLowerCase();
-      const attributes = match[2];
-      
-      // Skip doctype, comments, etc.
-      if (tagName === '!doctype' || fullMatch.startsWith('<!--')) {
-        continue;
-      }
-      
-      const isClosingTag = fullMatch.startsWith('</');
-      const isSelfClosing = fullMatch.endsWith('/>') || selfClosingTags.has(tagName);
-      
-      if (isClosingTag) {
-        // Pop from stack when we find a closing tag
-        if (stack.length > 0 && stack[stack.length - 1].tagName === tagName) {
-          stack.pop();
-        }
-      } else {
-        // Opening tag - create element
-        const id = this.extractAttribute(attributes, 'id');
-        const className = this.extractAttribute(attributes, 'class');
-        
-        let label = `<${tagName}>`;
-        if (id) {
-          label += ` #${id}`;
-        }
-        if (className) {
-          label += ` .${className.split(' ')[0]}`;
-        }
-        
-        const description = id || className || tagName;
-        
-        // Determine collapsible state
-        let collapsibleState = vscode.TreeItemCollapsibleState.None;
-        if (!isSelfClosing && !selfClosingTags.has(tagName)) {
-          collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
-        }
-        
-        const element = new Dependency(label, description, collapsibleState);
-        element.tagName = tagName;
-        element.elementId = id || '';
-        element.className = className || '';
-        
-        // Add to parent or root
-        if (stack.length > 0) {
-          const parent = stack[stack.length - 1];
-          parent.children.push(element);
-          // Update parent to be expandable if it has children
-          parent.updateCollapsibleState();
-        } else {
-          roots.push(element);
-        }
-        
-        // Push to stack if not self-closing
-        if (!isSelfClosing) {
-          stack.push(element);
-        }
-      }
-    }
-    
-    return roots;
-  }
-
-  private extractAttribute(attributes: string, attrName: string): string {
-    const regex = new RegExp(`${attrName}\\s*=\\s*["']([^"']+)["']`, 'i');
-    const match = attributes.match(regex);
-    return match ? match[1] : '';
-  }
-
-  /**
-   * Given the path to package.json, read all its dependencies and devDependencies.
-   */
-
-  private pathExists(p: string): boolean {
-    try {
-      fs.accessSync(p);
-    } catch (err) {
-      return false;
-    }
-    return true;
-  }
-}
-
-class Dependency extends vscode.TreeItem {
-  public children: Dependency[] = [];
-  public tagName: string = '';
-  public elementId: string = '';
-  public className: string = '';
-
-  constructor(
-    public readonly label: string,
-    private version: string,
-    collapsibleState: vscode.TreeItemCollapsibleState
-  ) {
-    super(label, collapsibleState);
-    this.tooltip = `${this.label}-${this.version}`;
-    this.description = this.version;
-  }
-
-  updateCollapsibleState() {
-    if (this.children.length > 0) {
-      // Create a new TreeItem with updated collapsible state
-      const newItem = new Dependency(this.label, this.version, vscode.TreeItemCollapsibleState.Collapsed);
-      newItem.children = this.children;
-      newItem.tagName = this.tagName;
-      newItem.elementId = this.elementId;
-      newItem.className = this.className;
-      
-      // Copy properties to this instance
-      this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
-    }
-  }
-
-  iconPath = new vscode.ThemeIcon('symbol-misc');
-}
\ No newline at end of file
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { HtmlDocumentModel, HtmlElementNode, parseHtmlDocument, validateSelector } from './HtmlDocumentModel';
+import { attributeSpans } from './DomEdits';
+
+/**
+ * Anything shown in the DOM Visualizer: workspace folder groups, elements, and optionally their text,
+ * comments and attributes
+ */
+export type DomTreeItem = DomFolderItem | Dependency | DomContentItem;
+
+/**
+ * The parse of one HTML document, with a tree item per element
+ */
+class DocumentTree {
+  model: HtmlDocumentModel | undefined;
+  rootItems: Dependency[] = [];
+  itemsByNode = new Map<HtmlElementNode, Dependency>();
+  matchedItems: Dependency[] = [];
+  visibleNodes: Set<HtmlElementNode> | undefined;
+
+  constructor(readonly documentUri: vscode.Uri) {}
+}
+
+/**
+ * The document shown for one workspace folder. Files outside every folder share a group without a folder.
+ */
+interface FolderGroup {
+  folder: vscode.WorkspaceFolder | undefined;
+  item: DomFolderItem;
+  document: DocumentTree | undefined;
+}
+
+/**
+ * Shows one HTML document per workspace folder. In a multi-root workspace the documents are grouped
+ * under their folder; otherwise the elements of the active document are shown at the top level.
+ */
+export class DOMVisualizerProvider implements vscode.TreeDataProvider<DomTreeItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<DomTreeItem | undefined | null | void> = new vscode.EventEmitter<DomTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<DomTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  private _onDidChangeDocument: vscode.EventEmitter<vscode.Uri | undefined> = new vscode.EventEmitter<vscode.Uri | undefined>();
+  readonly onDidChangeDocument: vscode.Event<vscode.Uri | undefined> = this._onDidChangeDocument.event;
+
+  /** Whether the tree stays on its document instead of following the active editor */
+  pinned = false;
+
+  private groups = new Map<string, FolderGroup>();
+  private activeDocumentUri: vscode.Uri | undefined;
+  private selectorFilter: string | undefined;
+
+  constructor(documentUri?: vscode.Uri) {
+    if (documentUri) {
+      this.groupFor(documentUri).document = new DocumentTree(documentUri);
+      this.activeDocumentUri = documentUri;
+    }
+  }
+
+  refresh(): void {
+    for (const group of this.groups.values()) {
+      if (group.document) {
+        group.document.model = undefined;
+      }
+    }
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * The HTML document last switched to, which single-document features like pinning act on
+   */
+  get documentUri(): vscode.Uri | undefined {
+    return this.activeDocumentUri;
+  }
+
+  /**
+   * Show the document for its workspace folder, replacing the one shown for that folder before
+   */
+  setDocument(documentUri: vscode.Uri): void {
+    const group = this.groupFor(documentUri);
+    const replaced = group.document?.documentUri.toString() !== documentUri.toString();
+    if (replaced) {
+      group.document = new DocumentTree(documentUri);
+    }
+    if (documentUri.toString() === this.activeDocumentUri?.toString()) {
+      return;
+    }
+    this.activeDocumentUri = documentUri;
+    this._onDidChangeDocument.fire(documentUri);
+    this.refresh();
+  }
+
+  /**
+   * Start tracking a workspace folder. The document is only used if nothing is shown for the folder yet.
+   */
+  addFolder(folder: vscode.WorkspaceFolder, documentUri?: vscode.Uri): void {
+    const group = this.groupFor(folder.uri);
+    if (group.document || !documentUri) {
+      return;
+    }
+    if (this.activeDocumentUri) {
+      group.document = new DocumentTree(documentUri);
+      this.refresh();
+    } else {
+      this.setDocument(documentUri);
+    }
+  }
+
+  /**
+   * Stop tracking a workspace folder that was removed from the workspace
+   */
+  removeFolder(folder: vscode.WorkspaceFolder): void {
+    const key = folder.uri.toString();
+    const removed = this.groups.get(key);
+    if (!removed) {
+      return;
+    }
+    this.groups.delete(key);
+
+    if (removed.document && removed.document.documentUri.toString() === this.activeDocumentUri?.toString()) {
+      this.activeDocumentUri = this.shownTrees()[0]?.documentUri;
+      this._onDidChangeDocument.fire(this.activeDocumentUri);
+    }
+    this.refresh();
+  }
+
+  /**
+   * Whether the tree currently shows the given document
+   */
+  isShowing(documentUri: vscode.Uri): boolean {
+    return this.treeOf(documentUri) !== undefined;
+  }
+
+  /**
+   * Parsed model of a shown HTML file, by default the active one. Unsaved editor content takes precedence
+   * over the file on disk, so offsets always match what the editor shows.
+   */
+  getModel(documentUri?: vscode.Uri): HtmlDocumentModel | undefined {
+    const tree = this.treeOf(documentUri || this.activeDocumentUri);
+    return tree ? this.load(tree) : undefined;
+  }
+
+  /**
+   * The CSS selector the tree is currently filtered by, if any
+   */
+  get filter(): string | undefined {
+    return this.selectorFilter;
+  }
+
+  /**
+   * Show only elements matching the selector and their ancestors. Throws when the selector cannot be parsed.
+   */
+  setFilter(selector: string | undefined): void {
+    if (selector) {
+      // Validate before switching, so a typo keeps the previous filter
+      validateSelector(selector);
+    }
+    this.selectorFilter = selector || undefined;
+    this.refresh();
+  }
+
+  /**
+   * Items matching the current filter, in document order and folder by folder
+   */
+  getMatches(): Dependency[] {
+    return this.shownTrees().flatMap(tree => {
+      this.load(tree);
+      return tree.matchedItems;
+    });
+  }
+
+  getTreeItem(element: DomTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getParent(element: DomTreeItem): DomTreeItem | undefined {
+    if (element instanceof DomFolderItem) {
+      return undefined;
+    }
+    if (element.parent) {
+      return element.parent;
+    }
+    return this.isGrouped() ? this.groupFor(element.documentUri).item : undefined;
+  }
+
+  /**
+   * The innermost tree item whose element contains the given offset of a shown HTML file
+   */
+  findItemAt(documentUri: vscode.Uri, offset: number): Dependency | undefined {
+    const tree = this.treeOf(documentUri);
+    const node = tree && this.load(tree)?.elementAt(offset);
+    return tree && node ? tree.itemsByNode.get(node) : undefined;
+  }
+
+  /**
+   * Whether the item belongs to the latest parse, i.e. its offsets still match the document
+   */
+  isCurrent(item: Dependency): boolean {
+    const tree = this.treeOf(item.documentUri);
+    return tree !== undefined && this.load(tree) !== undefined && tree.itemsByNode.get(item.node) === item;
+  }
+
+  /**
+   * Child indices leading from the roots to the item, stable across re-parses as long as the structure is unchanged
+   */
+  indexPathOf(item: Dependency): number[] {
+    const rootItems = this.treeOf(item.documentUri)?.rootItems || [];
+    const path: number[] = [];
+    for (let current: Dependency | undefined = item; current; current = current.parent) {
+      const siblings = current.parent ? current.parent.children : rootItems;
+      path.unshift(siblings.indexOf(current));
+    }
+    return path;
+  }
+
+  findItemByIndexPath(documentUri: vscode.Uri, path: number[]): Dependency | undefined {
+    const tree = this.treeOf(documentUri);
+    if (!tree || !this.load(tree)) {
+      return undefined;
+    }
+    let item: Dependency | undefined;
+    let candidates = tree.rootItems;
+    for (const index of path) {
+      item = candidates[index];
+      if (!item) {
+        return undefined;
+      }
+      candidates = item.children;
+    }
+    return item;
+  }
+
+  getChildren(element?: DomTreeItem): Thenable<DomTreeItem[]> {
+    console.log('TreeDataProvider.getChildren called with:', element?.label || 'root');
+
+    if (element instanceof DomContentItem) {
+      return Promise.resolve([]);
+    }
+    if (element instanceof DomFolderItem) {
+      const tree = this.groupFor(element.folder?.uri).document;
+      return Promise.resolve(tree && this.load(tree) ? this.visibleItems(tree, tree.rootItems) : []);
+    }
+    if (element) {
+      // Return child elements if any, with the enabled content nodes in document order
+      return Promise.resolve(this.childItemsOf(element));
+    }
+
+    if (this.isGrouped()) {
+      const folderItems = this.sortedGroups()
+        .filter(group => group.document)
+        .map(group => this.describeGroup(group));
+      console.log(`Showing documents of ${folderItems.length} workspace folders`);
+      return Promise.resolve(folderItems);
+    }
+
+    const tree = this.treeOf(this.activeDocumentUri);
+    console.log('Document:', tree?.documentUri.fsPath);
+    if (!tree || !this.load(tree)) {
+      console.log('No HTML document to visualize');
+      return Promise.resolve([]);
+    }
+
+    console.log(`Built hierarchical tree with ${tree.rootItems.length} root elements`);
+    return Promise.resolve(this.visibleItems(tree, tree.rootItems));
+  }
+
+  /**
+   * Whether the item is shown under the current filter
+   */
+  isVisible(item: Dependency): boolean {
+    const visibleNodes = this.treeOf(item.documentUri)?.visibleNodes;
+    return !visibleNodes || visibleNodes.has(item.node);
+  }
+
+  /**
+   * Documents are grouped by folder as soon as the workspace has more than one
+   */
+  private isGrouped(): boolean {
+    return (vscode.workspace.workspaceFolders?.length || 0) > 1;
+  }
+
+  private groupFor(uri: vscode.Uri | undefined): FolderGroup {
+    const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+    const key = folder ? folder.uri.toString() : '';
+    let group = this.groups.get(key);
+    if (!group) {
+      group = { folder, item: new DomFolderItem(folder), document: undefined };
+      this.groups.set(key, group);
+    }
+    return group;
+  }
+
+  /**
+   * Groups in the order of the workspace folders, with files outside every folder last
+   */
+  private sortedGroups(): FolderGroup[] {
+    const order = (group: FolderGroup) => group.folder ? group.folder.index : Number.MAX_SAFE_INTEGER;
+    return [...this.groups.values()].sort((a, b) => order(a) - order(b));
+  }
+
+  private describeGroup(group: FolderGroup): DomFolderItem {
+    const documentUri = group.document?.documentUri;
+    group.item.description = documentUri ? vscode.workspace.asRelativePath(documentUri, false) : undefined;
+    group.item.tooltip = documentUri ? documentUri.fsPath : group.item.label as string;
+    return group.item;
+  }
+
+  private treeOf(documentUri: vscode.Uri | undefined): DocumentTree | undefined {
+    if (!documentUri) {
+      return undefined;
+    }
+    return this.shownTrees().find(tree => tree.documentUri.toString() === documentUri.toString());
+  }
+
+  /**
+   * The documents currently in the tree: one per folder when grouped, otherwise only the active one
+   */
+  private shownTrees(): DocumentTree[] {
+    const trees = this.sortedGroups()
+      .map(group => group.document)
+      .filter((tree): tree is DocumentTree => tree !== undefined);
+    if (this.isGrouped()) {
+      return trees;
+    }
+    const active = this.activeDocumentUri?.toString();
+    return trees.filter(tree => tree.documentUri.toString() === active);
+  }
+
+  private load(tree: DocumentTree): HtmlDocumentModel | undefined {
+    if (!tree.model) {
+      const text = this.readHtmlText(tree.documentUri);
+      if (text === undefined) {
+        return undefined;
+      }
+      tree.model = parseHtmlDocument(text);
+      tree.rootItems = tree.model.roots.map(node => new Dependency(node, undefined, tree.documentUri));
+      tree.itemsByNode = new Map();
+      this.indexItems(tree, tree.rootItems);
+      this.addContentItems(tree, tree.model);
+      this.applyFilter(tree);
+    }
+    return tree.model;
+  }
+
+  private childItemsOf(item: Dependency): DomTreeItem[] {
+    const shown = this.shownContentKinds();
+    const contents = item.contentItems.filter(content => shown.has(content.kind));
+    const attributes = contents.filter(content => content.kind === 'attribute');
+    const tree = this.treeOf(item.documentUri);
+    const children = tree ? this.visibleItems(tree, item.children) : item.children;
+    const inline: (Dependency | DomContentItem)[] = [...children, ...contents.filter(content => content.kind !== 'attribute')];
+    return [...attributes, ...inline.sort((a, b) => a.start - b.start)];
+  }
+
+  private shownContentKinds(): Set<DomContentKind> {
+    const config = vscode.workspace.getConfiguration('whoAmI.domVisualizer');
+    const kinds = new Set<DomContentKind>();
+    if (config.get<boolean>('showTextNodes', false)) {
+      kinds.add('text');
+    }
+    if (config.get<boolean>('showComments', false)) {
+      kinds.add('comment');
+    }
+    if (config.get<boolean>('showAttributes', false)) {
+      kinds.add('attribute');
+    }
+    return kinds;
+  }
+
+  private addContentItems(tree: DocumentTree, model: HtmlDocumentModel): void {
+    const shown = this.shownContentKinds();
+    for (const item of tree.itemsByNode.values()) {
+      for (const span of attributeSpans(model, item.node)) {
+        const value = span.valueStart !== undefined ? model.text.substring(span.valueStart, span.valueEnd) : '';
+        item.contentItems.push(new DomContentItem('attribute', item, span.start, span.end, span.name, value));
+      }
+      for (const content of item.node.contents) {
+        const label = content.kind === 'comment' ? `<!-- ${truncate(content.text)} -->` : `"${truncate(content.text)}"`;
+        item.contentItems.push(new DomContentItem(content.kind, item, content.start, content.end, label));
+      }
+
+      if (item.children.length === 0 && item.contentItems.some(content => shown.has(content.kind))) {
+        item.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+      }
+    }
+  }
+
+  private visibleItems(tree: DocumentTree, items: Dependency[]): Dependency[] {
+    const visibleNodes = tree.visibleNodes;
+    return visibleNodes ? items.filter(item => visibleNodes.has(item.node)) : items;
+  }
+
+  private applyFilter(tree: DocumentTree): void {
+    tree.matchedItems = [];
+    tree.visibleNodes = undefined;
+    if (!tree.model || !this.selectorFilter) {
+      return;
+    }
+
+    const visibleNodes = new Set<HtmlElementNode>();
+    for (const node of tree.model.querySelectorAll(this.selectorFilter)) {
+      const item = tree.itemsByNode.get(node);
+      if (item) {
+        item.markAsMatch();
+        tree.matchedItems.push(item);
+      }
+      for (let current: HtmlElementNode | undefined = node; current; current = current.parent) {
+        visibleNodes.add(current);
+      }
+    }
+    tree.visibleNodes = visibleNodes;
+
+    // Filtered items get their own ids so the tree renders them with the path to every match expanded
+    for (const item of tree.itemsByNode.values()) {
+      item.id = `filter:${this.selectorFilter}:${tree.documentUri.toString()}:${this.indexPathOf(item).join('/')}`;
+      item.collapsibleState = item.children.some(child => visibleNodes.has(child.node))
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.None;
+    }
+  }
+
+  private indexItems(tree: DocumentTree, items: Dependency[]): void {
+    for (const item of items) {
+      tree.itemsByNode.set(item.node, item);
+      this.indexItems(tree, item.children);
+    }
+  }
+
+  private readHtmlText(documentUri: vscode.Uri): string | undefined {
+    const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === documentUri.toString());
+    if (openDocument) {
+      return openDocument.getText();
+    }
+
+    if (!this.pathExists(documentUri.fsPath)) {
+      return undefined;
+    }
+    try {
+      return fs.readFileSync(documentUri.fsPath, 'utf8');
+    } catch (error) {
+      console.error('Error reading HTML file:', error);
+      return undefined;
+    }
+  }
+
+  private pathExists(p: string): boolean {
+    try {
+      fs.accessSync(p);
+    } catch (err) {
+      return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * Groups the document shown for a workspace folder in multi-root workspaces
+ */
+export class DomFolderItem extends vscode.TreeItem {
+  constructor(public readonly folder: vscode.WorkspaceFolder | undefined) {
+    super(folder ? folder.name : 'Other Files', vscode.TreeItemCollapsibleState.Expanded);
+    this.id = `folder:${folder ? folder.uri.toString() : ''}`;
+    this.contextValue = 'domWorkspaceFolder';
+    this.iconPath = new vscode.ThemeIcon(folder ? 'root-folder' : 'files');
+  }
+}
+
+export class Dependency extends vscode.TreeItem {
+  public readonly children: Dependency[];
+  /** Attribute, text and comment nodes, shown depending on the view toggles */
+  public readonly contentItems: DomContentItem[] = [];
+  public readonly tagName: string;
+  public readonly elementId: string;
+  public readonly className: string;
+
+  constructor(
+    public readonly node: HtmlElementNode,
+    public readonly parent: Dependency | undefined,
+    public readonly documentUri: vscode.Uri
+  ) {
+    super(elementLabel(node), node.children.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+    this.tagName = node.tagName;
+    this.elementId = node.attributes.id || '';
+    this.className = node.attributes.class || '';
+    this.description = this.elementId || this.className || this.tagName;
+    this.tooltip = `${this.label}-${this.description}`;
+    this.contextValue = node.isVoid ? 'domVoidElement' : 'domElement';
+    this.children = node.children.map(child => new Dependency(child, this, documentUri));
+    this.command = {
+      command: 'helloworld.revealDomElement',
+      title: 'Reveal Element in Editor',
+      arguments: [this]
+    };
+  }
+
+  /**
+   * Highlight the item as a match of the DOM Visualizer filter
+   */
+  markAsMatch(): void {
+    this.iconPath = new vscode.ThemeIcon('symbol-misc', new vscode.ThemeColor('list.highlightForeground'));
+    this.tooltip = `${this.tooltip} (matches filter)`;
+  }
+
+  /** Offset of the element's opening `<` in the source */
+  get start(): number {
+    return this.node.start;
+  }
+
+  /** Offset just past the element's closing tag in the source */
+  get end(): number {
+    return this.node.end;
+  }
+
+  get attributes(): Record<string, string> {
+    return this.node.attributes;
+  }
+
+  iconPath = new vscode.ThemeIcon('symbol-misc');
+}
+
+/**
+ * Tree label of an element: its tag, id and classes, e.g. `<div> #ip .info-item`
+ */
+export function elementLabel(node: HtmlElementNode): string {
+  let label = `<${node.tagName}>`;
+  if (node.attributes.id) {
+    label += ` #${node.attributes.id}`;
+  }
+  const classes = (node.attributes.class || '').split(/\s+/).filter(name => name);
+  if (classes.length > 0) {
+    label += ` .${classes.join('.')}`;
+  }
+  return label;
+}
+
+/**
+ * The element selected in the tree; for a content node this is the element it belongs to
+ */
+export function selectedElement(treeView: vscode.TreeView<DomTreeItem>): Dependency | undefined {
+  const selected = treeView.selection[0];
+  if (selected instanceof DomFolderItem) {
+    return undefined;
+  }
+  return selected instanceof DomContentItem ? selected.parent : selected;
+}
+
+export type DomContentKind = 'text' | 'comment' | 'attribute';
+
+/**
+ * A text, comment or attribute node shown under its element
+ */
+export class DomContentItem extends vscode.TreeItem {
+  constructor(
+    public readonly kind: DomContentKind,
+    public readonly parent: Dependency,
+    public readonly start: number,
+    public readonly end: number,
+    label: string,
+    description?: string
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.None);
+    this.description = description;
+    this.tooltip = description !== undefined ? `${label}="${description}"` : label;
+    this.contextValue = `dom${kind.charAt(0).toUpperCase()}${kind.slice(1)}`;
+    this.iconPath = new vscode.ThemeIcon(kind === 'text' ? 'symbol-text' : kind === 'comment' ? 'comment' : 'symbol-property');
+    this.command = {
+      command: 'helloworld.revealDomElement',
+      title: 'Reveal in Editor',
+      arguments: [this]
+    };
+  }
+
+  get documentUri(): vscode.Uri {
+    return this.parent.documentUri;
+  }
+}
+
+function truncate(text: string, maxLength = 40): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > maxLength ? `${collapsed.substring(0, maxLength - 1)}…` : collapsed;
+}
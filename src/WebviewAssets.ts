@@ -0,0 +1,102 @@
+import { HtmlDocumentModel } from './HtmlDocumentModel';
+import { attributeSpans } from './DomEdits';
+
+/**
+ * A URL in a page or stylesheet that the webview has to load, with its exact location in the source text
+ */
+export interface AssetReference {
+  url: string;
+  start: number;
+  end: number;
+}
+
+// Attributes that load a resource on any element; `href` only does so on `<link>`
+const urlAttributes = new Set(['src', 'poster']);
+
+/**
+ * Every stylesheet, script, image, media and font reference of the page: URL attributes, `srcset` candidates,
+ * and `url()` in `<style>` elements and `style` attributes. External and inline (`data:`) URLs are included;
+ * use `isLocalReference` to tell them apart.
+ */
+export function findAssetReferences(model: HtmlDocumentModel): AssetReference[] {
+  const text = model.text;
+  const references: AssetReference[] = [];
+
+  for (const node of model.allElements()) {
+    for (const span of attributeSpans(model, node)) {
+      if (span.valueStart === undefined || span.valueEnd === undefined) {
+        continue;
+      }
+      const value = text.substring(span.valueStart, span.valueEnd);
+      if (urlAttributes.has(span.name) || (span.name === 'href' && node.tagName === 'link')) {
+        references.push(...trimmedReference(value, span.valueStart));
+      } else if (span.name === 'srcset') {
+        references.push(...srcsetReferences(value, span.valueStart));
+      } else if (span.name === 'style') {
+        references.push(...findCssReferences(value, span.valueStart));
+      }
+    }
+
+    if (node.tagName === 'style') {
+      references.push(...findCssReferences(text.substring(node.startTagEnd, node.endTagStart), node.startTagEnd));
+    }
+  }
+
+  return references.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * `url()` and `@import` references of a stylesheet. Offsets are shifted by `offset`, for CSS embedded in a page.
+ */
+export function findCssReferences(css: string, offset = 0): AssetReference[] {
+  const references: AssetReference[] = [];
+  const pattern = /url\(\s*(?:"([^"]*)"|'([^']*)'|([^'")\s]+))\s*\)|@import\s+(?:"([^"]*)"|'([^']*)')/dg;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(css)) !== null) {
+    const group = [1, 2, 3, 4, 5].find(index => match![index] !== undefined);
+    if (group !== undefined && match.indices?.[group]) {
+      const [start, end] = match.indices[group];
+      references.push({ url: match[group], start: offset + start, end: offset + end });
+    }
+  }
+  return references;
+}
+
+/**
+ * Whether the URL points at a file next to the page rather than at the web, an inline resource or a fragment
+ */
+export function isLocalReference(url: string): boolean {
+  return url !== '' && !/^([a-z][a-z\d+.-]*:|\/\/|#)/i.test(url);
+}
+
+/**
+ * Split a local reference into its file path and the query or fragment that follows it
+ */
+export function splitReference(url: string): { path: string; suffix: string } {
+  const index = url.search(/[?#]/);
+  return index === -1 ? { path: url, suffix: '' } : { path: url.substring(0, index), suffix: url.substring(index) };
+}
+
+function trimmedReference(value: string, valueStart: number): AssetReference[] {
+  const url = value.trim();
+  if (!url) {
+    return [];
+  }
+  const start = valueStart + value.indexOf(url);
+  return [{ url, start, end: start + url.length }];
+}
+
+function srcsetReferences(value: string, valueStart: number): AssetReference[] {
+  // Each candidate is a URL optionally followed by a descriptor like `2x` or `480w`
+  const references: AssetReference[] = [];
+  const pattern = /(?:^|,)\s*([^\s,]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    const start = valueStart + match.index + match[0].length - match[1].length;
+    references.push({ url: match[1], start, end: start + match[1].length });
+    // Skip the descriptor so it is not mistaken for a URL
+    const descriptorEnd = value.indexOf(',', match.index + match[0].length);
+    pattern.lastIndex = descriptorEnd === -1 ? value.length : descriptorEnd;
+  }
+  return references;
+}
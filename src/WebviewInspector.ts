@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import { DOMVisualizerProvider, DomTreeItem, selectedElement } from './TreeDataProvider';
+import { WhoAmIWebviewManager } from './WhoAmIWebview';
+
+/**
+ * Connect the DOM Visualizer with the "Who am I" webviews: the selected element is outlined on the page,
+ * and Alt-clicking an element on the page reveals its node in the tree and its range in the editor
+ */
+export function registerWebviewInspector(
+  context: vscode.ExtensionContext,
+  webviewManager: WhoAmIWebviewManager,
+  domProvider: DOMVisualizerProvider,
+  domTreeView: vscode.TreeView<DomTreeItem>
+) {
+  context.subscriptions.push(
+    domTreeView.onDidChangeSelection(() => {
+      const element = selectedElement(domTreeView);
+      if (element) {
+        webviewManager.highlightElement(element.documentUri, element.start);
+      }
+    }),
+
+    webviewManager.onDidRequestReveal(async ({ documentUri, offset }) => {
+      if (!domProvider.isShowing(documentUri)) {
+        // Pinning keeps the tree on its document, so a click on another page must not switch it
+        if (domProvider.pinned) {
+          vscode.window.showInformationMessage('The DOM Visualizer is pinned to another document. Unpin it to inspect this page.');
+          return;
+        }
+        domProvider.setDocument(documentUri);
+      }
+
+      const item = domProvider.findItemAt(documentUri, offset);
+      if (!item) {
+        vscode.window.showWarningMessage('The clicked element could not be found in the DOM Visualizer.');
+        return;
+      }
+
+      try {
+        if (domProvider.isVisible(item)) {
+          await domTreeView.reveal(item, { select: true, focus: false, expand: true });
+        }
+        await vscode.commands.executeCommand('helloworld.revealDomElement', item);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to reveal HTML element: ${error}`);
+      }
+    })
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * The message protocol between the extension and the "Who am I" webview.
+ *
+ * The webview sends requests, each answered by exactly one response with the same id. The extension pushes
+ * events that need no answer. Every request carries the protocol version, and the page starts with a `hello`
+ * request so a page built for another version fails loudly instead of half working.
+ */
+import type { IpDetails } from './IpLookup';
+import type { LocalNetworkReport } from './NetworkReport';
+
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Requests the webview can send, with their parameters and results
+ */
+export interface WebviewCommands {
+  hello: { params: { protocolVersion: number }; result: { protocolVersion: number } };
+  saveIpAddress: { params: { ipAddress: string }; result: { ipAddress: string } };
+  getStoredIpAddress: { params: undefined; result: { ipAddress: string | null } };
+  lookupIpAddresses: { params: undefined; result: { ipv4: AddressLookupResult; ipv6: AddressLookupResult } };
+  lookupIpDetails: { params: { ipAddress: string }; result: { details: IpDetails; provider: string } };
+  getNetworkReport: { params: undefined; result: LocalNetworkReport };
+  revealElement: { params: { offset: number }; result: undefined };
+}
+
+/**
+ * The own address over one IP version, or why there is none
+ */
+export type AddressLookupResult =
+  | { ipAddress: string; provider: string }
+  | { ipAddress: null; error: string; noConnectivity: boolean };
+
+/**
+ * Events the extension pushes to the webview
+ */
+export interface WebviewEvents {
+  highlightElement: { offset: number };
+}
+
+export type CommandName = keyof WebviewCommands;
+export type CommandParams<K extends CommandName> = WebviewCommands[K]['params'];
+export type CommandResult<K extends CommandName> = WebviewCommands[K]['result'];
+
+export interface WebviewRequest {
+  type: 'request';
+  protocolVersion: number;
+  id: number;
+  command: string;
+  params?: unknown;
+}
+
+export type ProtocolErrorCode =
+  | 'invalidMessage'
+  | 'unsupportedVersion'
+  | 'unknownCommand'
+  | 'invalidParams'
+  | 'commandFailed'
+  | 'lookupFailed';
+
+export type WebviewResponse =
+  | { type: 'response'; id: number | null; ok: true; result: unknown }
+  | { type: 'response'; id: number | null; ok: false; error: { code: ProtocolErrorCode; message: string } };
+
+export interface WebviewEvent<K extends keyof WebviewEvents = keyof WebviewEvents> {
+  type: 'event';
+  event: K;
+  data: WebviewEvents[K];
+}
+
+/**
+ * A failed request, reported to the webview with its code
+ */
+export class ProtocolError extends Error {
+  constructor(readonly code: ProtocolErrorCode, message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+type ParamsValidator<K extends CommandName> = (params: unknown) => params is CommandParams<K>;
+
+const paramsValidators: { [K in CommandName]: ParamsValidator<K> } = {
+  hello: (params): params is CommandParams<'hello'> =>
+    isRecord(params) && typeof params.protocolVersion === 'number',
+  saveIpAddress: (params): params is CommandParams<'saveIpAddress'> =>
+    isRecord(params) && typeof params.ipAddress === 'string' && params.ipAddress.trim() !== '',
+  getStoredIpAddress: (params): params is CommandParams<'getStoredIpAddress'> =>
+    params === undefined,
+  lookupIpAddresses: (params): params is CommandParams<'lookupIpAddresses'> =>
+    params === undefined,
+  lookupIpDetails: (params): params is CommandParams<'lookupIpDetails'> =>
+    isRecord(params) && typeof params.ipAddress === 'string' && params.ipAddress.trim() !== '',
+  getNetworkReport: (params): params is CommandParams<'getNetworkReport'> =>
+    params === undefined,
+  revealElement: (params): params is CommandParams<'revealElement'> =>
+    isRecord(params) && Number.isInteger(params.offset) && (params.offset as number) >= 0
+};
+
+export type CommandHandler<K extends CommandName, TContext> =
+  (params: CommandParams<K>, context: TContext) => CommandResult<K> | Promise<CommandResult<K>>;
+
+/**
+ * Dispatches validated requests to the handler registered for their command and turns the outcome into a
+ * response. `TContext` is whatever the handlers need to know about the sender, e.g. its panel.
+ */
+export class MessageRouter<TContext> {
+  private handlers = new Map<string, (params: unknown, context: TContext) => unknown>();
+
+  constructor() {
+    this.register('hello', ({ protocolVersion }) => {
+      if (protocolVersion !== PROTOCOL_VERSION) {
+        throw new ProtocolError('unsupportedVersion', `The extension speaks protocol version ${PROTOCOL_VERSION}, the page ${protocolVersion}.`);
+      }
+      return { protocolVersion: PROTOCOL_VERSION };
+    });
+  }
+
+  register<K extends CommandName>(command: K, handler: CommandHandler<K, TContext>): this {
+    this.handlers.set(command, handler as (params: unknown, context: TContext) => unknown);
+    return this;
+  }
+
+  async handle(message: unknown, context: TContext): Promise<WebviewResponse> {
+    const id = isRecord(message) && typeof message.id === 'number' ? message.id : null;
+    try {
+      const request = parseRequest(message);
+      const handler = this.handlers.get(request.command);
+      if (!handler || !isCommandName(request.command)) {
+        throw new ProtocolError('unknownCommand', `Unknown command "${request.command}".`);
+      }
+      if (!paramsValidators[request.command](request.params)) {
+        throw new ProtocolError('invalidParams', `Invalid parameters for "${request.command}".`);
+      }
+      return { type: 'response', id, ok: true, result: await handler(request.params, context) };
+    } catch (error) {
+      const code = error instanceof ProtocolError ? error.code : 'commandFailed';
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { type: 'response', id, ok: false, error: { code, message: errorMessage } };
+    }
+  }
+}
+
+/**
+ * Check the envelope of an incoming message. Throws a `ProtocolError` for anything that is not a request
+ * of the current protocol version.
+ */
+export function parseRequest(message: unknown): WebviewRequest {
+  if (!isRecord(message) || message.type !== 'request' || typeof message.id !== 'number' || typeof message.command !== 'string') {
+    throw new ProtocolError('invalidMessage', 'Expected a request with a numeric id and a command.');
+  }
+  if (message.protocolVersion !== PROTOCOL_VERSION) {
+    throw new ProtocolError('unsupportedVersion', `Unsupported protocol version ${message.protocolVersion}, expected ${PROTOCOL_VERSION}.`);
+  }
+  return message as unknown as WebviewRequest;
+}
+
+export function createEvent<K extends keyof WebviewEvents>(event: K, data: WebviewEvents[K]): WebviewEvent<K> {
+  return { type: 'event', event, data };
+}
+
+function isCommandName(command: string): command is CommandName {
+  return Object.prototype.hasOwnProperty.call(paramsValidators, command);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,39 @@
+import * as crypto from 'crypto';
+
+export interface ContentSecurityOptions {
+  /** The webview's resource origin, `webview.cspSource` */
+  cspSource: string;
+  nonce: string;
+  /** Origins the page may fetch from */
+  connectOrigins: string[];
+  /** Origins allowed for every kind of content besides scripts, which are only allowed by nonce */
+  extraOrigins: string[];
+}
+
+/**
+ * The Content-Security-Policy for a rendered page: scripts only run when tagged with the nonce,
+ * styles, images and fonts come from the webview's resource origin, and fetches only go to the given origins
+ */
+export function buildContentSecurityPolicy(options: ContentSecurityOptions): string {
+  const extra = options.extraOrigins.join(' ');
+  const sources = (...values: string[]) => values.filter(value => value).join(' ');
+  return [
+    `default-src 'none'`,
+    `script-src 'nonce-${options.nonce}'`,
+    `style-src ${sources(options.cspSource, `'nonce-${options.nonce}'`, extra)}`,
+    `img-src ${sources(options.cspSource, 'data:', extra)}`,
+    `font-src ${sources(options.cspSource, extra)}`,
+    `connect-src ${sources(...options.connectOrigins, extra)}`
+  ].join('; ');
+}
+
+/**
+ * Whether the value can be put into a CSP source list as an origin, e.g. `https://api.example.com:8443`
+ */
+export function isValidOrigin(value: string): boolean {
+  return /^(https?|wss?):\/\/[^\s;,'"/]+$/i.test(value);
+}
+
+export function createNonce(): string {
+  return crypto.randomBytes(16).toString('base64');
+}
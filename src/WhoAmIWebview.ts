@@ -0,0 +1,844 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { findWhoAmIDocument } from './WorkspaceDocuments';
+import { parseHtmlDocument } from './HtmlDocumentModel';
+import { TextEdit, applyEditsToText, attributeSpans, offsetMarkerEdits, setAttributeEdits } from './DomEdits';
+import { findAssetReferences, findCssReferences, isLocalReference, splitReference } from './WebviewAssets';
+import { AddressLookupResult, CommandParams, CommandResult, MessageRouter, ProtocolError, PROTOCOL_VERSION, createEvent } from './WebviewProtocol';
+import { buildContentSecurityPolicy, createNonce, isValidOrigin } from './WebviewSecurity';
+import { AddressOutcome } from './IpLookup';
+import { IpLookupResult, IpLookupService, savePublicAddresses } from './IpLookupService';
+import { readNetworkReport } from './NetworkReportCommand';
+
+const WEBVIEW_TYPE = 'whoAmIWebview';
+
+// Workspace state key of the editor column each file's panel was last shown in
+const COLUMNS_KEY = 'whoAmI.webviewColumns';
+
+// Saves and keystrokes often come in bursts, so rendering waits until they settle
+const RENDER_DELAY_MS = 300;
+
+// Rendered elements carry their source offset, which is how the page and the DOM Visualizer refer to an element
+const OFFSET_ATTRIBUTE = 'data-who-am-i-offset';
+
+// Styles for what the extension adds to the page. Style attributes are blocked by the CSP, so the banner uses classes.
+const EXTENSION_CSS = `
+.who-am-i-highlight { outline: 2px solid var(--vscode-focusBorder, #007fd4) !important; outline-offset: 2px; }
+.who-am-i-missing-assets {
+    margin: 8px;
+    padding: 8px 12px;
+    font-family: var(--vscode-font-family);
+    color: var(--vscode-errorForeground, #f48771);
+    background: var(--vscode-inputValidation-errorBackground, #5a1d1d);
+    border: 1px solid var(--vscode-inputValidation-errorBorder, #be1100);
+}
+.who-am-i-missing-assets ul { margin: 4px 0 0; }
+.who-am-i-network-interface { margin-top: 12px; }
+.who-am-i-network-interface h3 { margin: 0 0 4px; }
+.who-am-i-network-error { color: var(--vscode-errorForeground, #f48771); }
+`;
+
+/**
+ * The panel a webview request came from
+ */
+interface PanelContext {
+  panel: vscode.WebviewPanel;
+  documentUri: vscode.Uri;
+}
+
+/**
+ * An Alt-click on an element of a rendered page
+ */
+export interface RevealRequest {
+  documentUri: vscode.Uri;
+  /** Offset of the element's start tag in the document */
+  offset: number;
+}
+
+/**
+ * The "Who Am I" pages rendered from who_am_i.html files, loading their assets through webview URIs.
+ * Every file gets a single panel, which re-renders when the file or its assets change.
+ */
+export class WhoAmIWebviewManager {
+  private panels = new Map<string, vscode.WebviewPanel>();
+  private renderTimers = new Map<string, NodeJS.Timeout>();
+  // The document text each panel was rendered from, to tell whether its offsets are still valid
+  private renderedTexts = new Map<string, string>();
+  private renderedAssets = new Map<string, vscode.Uri[]>();
+
+  private router = new MessageRouter<PanelContext>()
+    .register('saveIpAddress', saveIpAddress)
+    .register('getStoredIpAddress', getStoredIpAddress)
+    .register('revealElement', ({ offset }, { documentUri }) => this.requestReveal(documentUri, offset))
+    .register('lookupIpAddresses', () => this.lookupIpAddresses())
+    .register('lookupIpDetails', ({ ipAddress }) => this.lookupIpDetails(ipAddress))
+    .register('getNetworkReport', () => readNetworkReport());
+
+  private _onDidRequestReveal: vscode.EventEmitter<RevealRequest> = new vscode.EventEmitter<RevealRequest>();
+  readonly onDidRequestReveal: vscode.Event<RevealRequest> = this._onDidRequestReveal.event;
+
+  constructor(private context: vscode.ExtensionContext, private ipLookup: IpLookupService) {}
+
+  /**
+   * Reveal the panel of the HTML file, creating it on first use
+   */
+  show(documentUri: vscode.Uri): void {
+    const key = documentUri.toString();
+    const existing = this.panels.get(key);
+    if (existing) {
+      existing.reveal();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      WEBVIEW_TYPE,
+      `Who am I: ${vscode.workspace.asRelativePath(documentUri)}`,
+      this.context.workspaceState.get<Record<string, vscode.ViewColumn>>(COLUMNS_KEY, {})[key] || vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        localResourceRoots: this.resourceRoots(documentUri, [])
+      }
+    );
+    this.attach(panel, documentUri);
+  }
+
+  /**
+   * Take over a panel VS Code restored after a reload. The page's own state brings back its last results.
+   */
+  restore(panel: vscode.WebviewPanel, documentUri: vscode.Uri): void {
+    if (this.panels.has(documentUri.toString())) {
+      panel.dispose();
+      return;
+    }
+    panel.webview.options = { enableScripts: true, localResourceRoots: this.resourceRoots(documentUri, []) };
+    this.attach(panel, documentUri);
+  }
+
+  private attach(panel: vscode.WebviewPanel, documentUri: vscode.Uri): void {
+    const key = documentUri.toString();
+    this.panels.set(key, panel);
+    this.rememberColumn(key, panel.viewColumn);
+
+    panel.onDidChangeViewState(() => this.rememberColumn(key, panel.viewColumn), undefined, this.context.subscriptions);
+    panel.onDidDispose(() => {
+      this.panels.delete(key);
+      clearTimeout(this.renderTimers.get(key));
+      this.renderTimers.delete(key);
+      this.renderedTexts.delete(key);
+      this.renderedAssets.delete(key);
+    }, undefined, this.context.subscriptions);
+    panel.webview.onDidReceiveMessage(async (message) => {
+      const response = await this.router.handle(message, { panel, documentUri });
+      if (!response.ok) {
+        console.error(`Webview request failed (${response.error.code}): ${response.error.message}`);
+      }
+      panel.webview.postMessage(response);
+    }, undefined, this.context.subscriptions);
+
+    this.render(documentUri);
+  }
+
+  /**
+   * Re-render, after a short delay, every panel that shows the file or loads it as an asset
+   */
+  scheduleRender(changedUri: vscode.Uri): void {
+    for (const documentUri of this.documentsUsing(changedUri)) {
+      const key = documentUri.toString();
+      clearTimeout(this.renderTimers.get(key));
+      this.renderTimers.set(key, setTimeout(() => {
+        this.renderTimers.delete(key);
+        this.render(documentUri);
+      }, RENDER_DELAY_MS));
+    }
+  }
+
+  /**
+   * Re-render all panels right away
+   */
+  refresh(): void {
+    for (const key of this.panels.keys()) {
+      this.render(vscode.Uri.parse(key));
+    }
+  }
+
+  /**
+   * Outline the element starting at the offset in the file's panel and scroll it into view
+   */
+  highlightElement(documentUri: vscode.Uri, offset: number): void {
+    const panel = this.panels.get(documentUri.toString());
+    if (panel && !this.isStale(documentUri)) {
+      panel.webview.postMessage(createEvent('highlightElement', { offset }));
+    }
+  }
+
+  private requestReveal(documentUri: vscode.Uri, offset: number): undefined {
+    if (this.isStale(documentUri)) {
+      vscode.window.showWarningMessage('The webview is out of date. Save the file to re-render it, then try again.');
+      throw new ProtocolError('commandFailed', 'The page is out of date.');
+    }
+    this._onDidRequestReveal.fire({ documentUri, offset });
+    return undefined;
+  }
+
+  /**
+   * Look up the public IPv4 and IPv6 addresses for the page and keep both in the user settings. Fails only
+   * when neither lookup got through.
+   */
+  private async lookupIpAddresses(): Promise<CommandResult<'lookupIpAddresses'>> {
+    const result = await lookupForPage(async () => {
+      const result = await this.ipLookup.lookupOwnAddresses();
+      if (!result.IPv4.ok && !result.IPv6.ok) {
+        throw result.IPv4.error;
+      }
+      return result;
+    });
+    const stored = await savePublicAddresses(result);
+    vscode.window.showInformationMessage(`IP addresses ${[stored.ipv4, stored.ipv6].filter(ip => ip).join(' and ')} saved to user settings.`);
+    return { ipv4: toAddressResult(result.IPv4), ipv6: toAddressResult(result.IPv6) };
+  }
+
+  private lookupIpDetails(ipAddress: string): Promise<CommandResult<'lookupIpDetails'>> {
+    return lookupForPage(() => this.ipLookup.lookupDetails(ipAddress));
+  }
+
+  private isStale(documentUri: vscode.Uri): boolean {
+    try {
+      return readText(documentUri) !== this.renderedTexts.get(documentUri.toString());
+    } catch (error) {
+      return true;
+    }
+  }
+
+  private documentsUsing(changedUri: vscode.Uri): vscode.Uri[] {
+    const changed = changedUri.toString();
+    return [...this.panels.keys()]
+      .map(key => vscode.Uri.parse(key))
+      .filter(documentUri => [documentUri, ...(this.renderedAssets.get(documentUri.toString()) || [])]
+        .some(uri => uri.toString() === changed));
+  }
+
+  /**
+   * Remember the panel's editor column, so it opens there again after being closed
+   */
+  private rememberColumn(key: string, column: vscode.ViewColumn | undefined): void {
+    const columns = this.context.workspaceState.get<Record<string, vscode.ViewColumn>>(COLUMNS_KEY, {});
+    if (column !== undefined && columns[key] !== column) {
+      this.context.workspaceState.update(COLUMNS_KEY, { ...columns, [key]: column });
+    }
+  }
+
+  /**
+   * Restrict the webview to the extension's own files and the folders the page loads assets from
+   */
+  private resourceRoots(documentUri: vscode.Uri, assets: vscode.Uri[]): vscode.Uri[] {
+    const folder = vscode.workspace.getWorkspaceFolder(documentUri);
+    const roots = [
+      vscode.Uri.joinPath(this.context.extensionUri, 'who_am_i_workspace'),
+      vscode.Uri.joinPath(documentUri, '..'),
+      ...(folder ? [folder.uri] : []),
+      ...assets.map(asset => vscode.Uri.joinPath(asset, '..'))
+    ];
+    return roots.filter((root, index) => roots.findIndex(other => other.toString() === root.toString()) === index);
+  }
+
+  private render(documentUri: vscode.Uri): void {
+    const panel = this.panels.get(documentUri.toString());
+    if (!panel) {
+      return;
+    }
+
+    try {
+      const text = readText(documentUri);
+      const page = preparePage(panel.webview, documentUri, text, allowedOrigins());
+      panel.webview.options = { ...panel.webview.options, localResourceRoots: this.resourceRoots(documentUri, page.assets) };
+      panel.webview.html = page.html;
+      this.renderedTexts.set(documentUri.toString(), text);
+      this.renderedAssets.set(documentUri.toString(), page.assets);
+      console.log(`Rendered ${vscode.workspace.asRelativePath(documentUri)} in the webview with ${page.assets.length} assets`);
+      if (page.missing.length > 0) {
+        console.warn(`Missing webview assets: ${page.missing.join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Error reading HTML file:', error);
+      panel.webview.html = buildErrorContent(documentUri, error);
+    }
+  }
+}
+
+/**
+ * Register the "Open as WebView" command and keep its panels in step with the workspace files
+ */
+export function registerWhoAmIWebview(context: vscode.ExtensionContext, ipLookup: IpLookupService): WhoAmIWebviewManager {
+  const manager = new WhoAmIWebviewManager(context, ipLookup);
+
+  // Bring panels back after a reload. The page stores the document it shows in its webview state.
+  context.subscriptions.push(
+    vscode.window.registerWebviewPanelSerializer(WEBVIEW_TYPE, {
+      async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: unknown) {
+        const documentUri = (state as { documentUri?: unknown } | undefined)?.documentUri;
+        manager.restore(panel, typeof documentUri === 'string' ? vscode.Uri.parse(documentUri) : bundledDocumentUri(context));
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('helloworld.openAsWebview', async (uri?: vscode.Uri) => {
+      const documentUri = uri || await pickWhoAmIDocument() || bundledDocumentUri(context);
+      manager.show(documentUri);
+    }),
+
+    vscode.workspace.onDidSaveTextDocument((document) => manager.scheduleRender(document.uri)),
+
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('whoAmI.webview.allowedOrigins')) {
+        manager.refresh();
+      }
+    }),
+
+    vscode.workspace.onDidChangeTextDocument((event) => {
+      const renderOnChange = vscode.workspace
+        .getConfiguration('whoAmI')
+        .get<boolean>('webview.renderOnChange', false);
+      if (renderOnChange && event.contentChanges.length > 0) {
+        manager.scheduleRender(event.document.uri);
+      }
+    })
+  );
+
+  // Changes made outside the editor, e.g. by git or an image editor, do not fire save events
+  const watcher = vscode.workspace.createFileSystemWatcher('**/*.{html,htm,css,js,png,jpg,jpeg,gif,svg,webp,ico,woff,woff2,ttf,otf}');
+  watcher.onDidChange((uri) => manager.scheduleRender(uri));
+  watcher.onDidCreate((uri) => manager.scheduleRender(uri));
+  context.subscriptions.push(watcher);
+
+  return manager;
+}
+
+/**
+ * The who_am_i.html to render: the one in the active editor, the only one in the workspace, or the user's choice
+ */
+async function pickWhoAmIDocument(): Promise<vscode.Uri | undefined> {
+  const activeDocument = vscode.window.activeTextEditor?.document;
+  if (activeDocument && activeDocument.uri.scheme === 'file' && path.basename(activeDocument.fileName) === 'who_am_i.html') {
+    return activeDocument.uri;
+  }
+
+  const candidates: vscode.Uri[] = [];
+  for (const folder of vscode.workspace.workspaceFolders || []) {
+    const documentUri = await findWhoAmIDocument(folder);
+    if (documentUri) {
+      candidates.push(documentUri);
+    }
+  }
+  if (candidates.length <= 1) {
+    return candidates[0];
+  }
+
+  const choice = await vscode.window.showQuickPick(
+    candidates.map(documentUri => ({ label: vscode.workspace.asRelativePath(documentUri), documentUri })),
+    { placeHolder: 'Which who_am_i.html should be rendered?' }
+  );
+  return choice?.documentUri;
+}
+
+/**
+ * The copy bundled with the extension, rendered when the workspace has none
+ */
+function bundledDocumentUri(context: vscode.ExtensionContext): vscode.Uri {
+  return vscode.Uri.joinPath(context.extensionUri, 'who_am_i_workspace', 'who_am_i.html');
+}
+
+/**
+ * Text of a file, taken from its editor when open so unsaved changes are rendered too
+ */
+function readText(uri: vscode.Uri): string {
+  const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+  return openDocument ? openDocument.getText() : fs.readFileSync(uri.fsPath, 'utf8');
+}
+
+/**
+ * Save the IP address the page looked up to the user settings
+ */
+async function saveIpAddress({ ipAddress }: CommandParams<'saveIpAddress'>): Promise<CommandResult<'saveIpAddress'>> {
+  try {
+    const config = vscode.workspace.getConfiguration();
+    await config.update('public_ip_address', ipAddress, vscode.ConfigurationTarget.Global);
+
+    // Show information message to user
+    vscode.window.showInformationMessage(`IP address ${ipAddress} saved to user settings.`);
+
+    console.log(`IP address saved to user settings: ${ipAddress}`);
+    return { ipAddress };
+  } catch (error) {
+    console.error('Error saving IP address to settings:', error);
+    vscode.window.showErrorMessage('Failed to save IP address to settings.');
+    throw error;
+  }
+}
+
+/**
+ * Run a lookup for the page, reporting failed lookups with their reason: the classified failure of the service,
+ * or the lookup settings that are wrong, like an invalid custom URL
+ */
+async function lookupForPage<T>(lookup: () => Promise<T>): Promise<T> {
+  try {
+    return await lookup();
+  } catch (error) {
+    console.error('IP lookup failed:', error);
+    throw new ProtocolError('lookupFailed', error instanceof Error ? error.message : String(error));
+  }
+}
+
+function toAddressResult(outcome: AddressOutcome<IpLookupResult>): AddressLookupResult {
+  return outcome.ok
+    ? { ipAddress: outcome.value.details.ip, provider: outcome.value.provider }
+    : { ipAddress: null, error: outcome.error.message, noConnectivity: outcome.noConnectivity };
+}
+
+function getStoredIpAddress(): CommandResult<'getStoredIpAddress'> {
+  const storedIp = vscode.workspace.getConfiguration().get('public_ip_address') as string;
+  return { ipAddress: storedIp || null };
+}
+
+// Scripts appended to every page. The API bridge and the inspector are kept apart from the page's own
+// WhoAmI override, so they keep working on pages without who_am_i.js.
+function buildBridgeScript(documentUri: vscode.Uri): string {
+  return `
+// VS Code API for webview communication
+const vscode = acquireVsCodeApi();
+
+// Webview state survives re-renders and reloads of VS Code; the extension restores the panel from it
+const whoAmIState = {
+    get: () => vscode.getState() || {},
+    update: changes => vscode.setState({ ...(vscode.getState() || {}), ...changes })
+};
+whoAmIState.update({ documentUri: ${JSON.stringify(documentUri.toString()).replace(/</g, '\\u003c')} });
+
+// Client side of the message protocol (see WebviewProtocol.ts): requests resolve with the extension's
+// response of the same id, events go to the handler registered with on()
+const whoAmIProtocol = (() => {
+    const protocolVersion = ${PROTOCOL_VERSION};
+    const pending = new Map();
+    const eventHandlers = new Map();
+    let nextId = 1;
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (!message || typeof message !== 'object') {
+            return;
+        }
+        if (message.type === 'response' && pending.has(message.id)) {
+            const { resolve, reject } = pending.get(message.id);
+            pending.delete(message.id);
+            if (message.ok) {
+                resolve(message.result);
+            } else {
+                reject(Object.assign(new Error(message.error.message), { code: message.error.code }));
+            }
+        } else if (message.type === 'event' && eventHandlers.has(message.event)) {
+            eventHandlers.get(message.event)(message.data);
+        }
+    });
+
+    const request = (command, params) => new Promise((resolve, reject) => {
+        const id = nextId++;
+        pending.set(id, { resolve, reject });
+        vscode.postMessage({ type: 'request', protocolVersion, id, command, params });
+    });
+    const on = (event, handler) => eventHandlers.set(event, handler);
+
+    const ready = request('hello', { protocolVersion });
+    ready.catch(error => console.error('Who Am I protocol handshake failed:', error.message));
+
+    return { request, on, ready };
+})();
+
+// Inspect element: Alt-click reveals an element in the DOM Visualizer and the editor
+document.addEventListener('click', event => {
+    if (!event.altKey) {
+        return;
+    }
+    const element = event.target.closest('[${OFFSET_ATTRIBUTE}]');
+    if (!element) {
+        return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    whoAmIProtocol
+        .request('revealElement', { offset: Number(element.getAttribute('${OFFSET_ATTRIBUTE}')) })
+        .catch(error => console.error('Failed to reveal element:', error.message));
+}, true);
+
+// Outline the element selected in the DOM Visualizer
+whoAmIProtocol.on('highlightElement', ({ offset }) => {
+    document.querySelectorAll('.who-am-i-highlight').forEach(element => element.classList.remove('who-am-i-highlight'));
+    const element = document.querySelector('[${OFFSET_ATTRIBUTE}="' + offset + '"]');
+    if (element) {
+        element.classList.add('who-am-i-highlight');
+        element.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+});`;
+}
+
+const APP_SCRIPT = `
+// Look up IP information through the extension, which keeps the address in the VS Code user settings
+const originalClass = WhoAmI;
+class WhoAmIExtended extends originalClass {
+    async getIpAddress() {
+        try {
+            this.showLoading('ip');
+            this.hideError();
+
+            const { ipv4, ipv6 } = await whoAmIProtocol.request('lookupIpAddresses');
+            console.log('IP addresses looked up and saved to user settings:', ipv4, ipv6);
+            this.ipAddress = ipv4.ipAddress || ipv6.ipAddress;
+
+            this.hideLoading('ip');
+            this.displayIpAddresses({ ipv4, ipv6 });
+            this.showDetailsSection();
+
+        } catch (error) {
+            console.error('Error getting IP address:', error);
+            this.hideLoading('ip');
+            this.showError(error.code === 'lookupFailed'
+                ? \`Failed to get your IP address: \${error.message}\`
+                : 'Failed to get your IP address. Please check your internet connection and try again.');
+        }
+    }
+
+    async getLocationDetails() {
+        if (!this.ipAddress) {
+            this.showError('Please get your IP address first.');
+            return;
+        }
+
+        try {
+            this.showLoading('details');
+            this.hideError();
+
+            const result = await whoAmIProtocol.request('lookupIpDetails', { ipAddress: this.ipAddress });
+            this.locationData = result.details;
+
+            this.hideLoading('details');
+            this.displayLocationDetails(result.details);
+
+        } catch (error) {
+            console.error('Error getting location details:', error);
+            this.hideLoading('details');
+            this.showError(error.code === 'lookupFailed'
+                ? \`Failed to get location details: \${error.message}\`
+                : 'Failed to get location details. The service might be temporarily unavailable.');
+        }
+    }
+
+    // The IPv4 address goes where the page shows its address, the IPv6 one below it
+    displayIpAddresses(addresses) {
+        const describe = (result, family) => result.ipAddress
+            || (result.noConnectivity ? \`No \${family} connectivity\` : \`\${family} lookup failed: \${result.error}\`);
+        super.displayIpAddress(describe(addresses.ipv4, 'IPv4'));
+        this.displayIpv6Address(describe(addresses.ipv6, 'IPv6'));
+        whoAmIState.update({ ipAddress: this.ipAddress, addresses });
+    }
+
+    // Pages made before IPv6 support have no place for the IPv6 address, so it is added to the address block
+    displayIpv6Address(text) {
+        let addressElement = document.getElementById('ipv6-address');
+        const ipDisplay = document.getElementById('ip-display');
+        if (!addressElement && ipDisplay) {
+            const label = document.createElement('p');
+            label.id = 'ipv6-label';
+            label.textContent = 'Your Public IPv6:';
+            addressElement = document.createElement('span');
+            addressElement.id = 'ipv6-address';
+            addressElement.className = 'highlight-text';
+            ipDisplay.append(label, addressElement);
+        }
+        if (addressElement) {
+            addressElement.textContent = text;
+        }
+    }
+
+    // Keep the shown results in the webview state, so they reappear without fetching again
+    displayIpAddress(ip) {
+        super.displayIpAddress(ip);
+        whoAmIState.update({ ipAddress: ip });
+    }
+
+    displayLocationDetails(data) {
+        super.displayLocationDetails(data);
+        whoAmIState.update({ locationData: data });
+    }
+
+    init() {
+        super.init();
+
+        const state = whoAmIState.get();
+        if (state.addresses) {
+            this.ipAddress = state.ipAddress;
+            this.displayIpAddresses(state.addresses);
+            this.showDetailsSection();
+        } else if (state.ipAddress) {
+            this.ipAddress = state.ipAddress;
+            super.displayIpAddress(state.ipAddress);
+            this.showDetailsSection();
+        }
+        if (state.locationData) {
+            this.locationData = state.locationData;
+            super.displayLocationDetails(state.locationData);
+        }
+
+        // Request stored IP address on initialization
+        whoAmIProtocol.request('getStoredIpAddress').then(result => {
+            if (result.ipAddress) {
+                console.log('Found stored IP address:', result.ipAddress);
+                // Optionally pre-populate the IP if you want
+                // this.ipAddress = result.ipAddress;
+                // this.displayIpAddress(result.ipAddress);
+            }
+        }).catch(error => {
+            console.error('Error reading the stored IP address:', error);
+            this.showError(\`Failed to read the stored IP address: \${error.message}\`);
+        });
+    }
+}
+
+// Replace the global initialization
+document.addEventListener('DOMContentLoaded', () => {
+    window.whoAmIApp = new WhoAmIExtended();
+});
+`;
+
+// The local network report, shown in the page's own #network-section or in a section added after its content.
+// It runs before APP_SCRIPT so it also works on pages without who_am_i.js.
+const NETWORK_SCRIPT = `
+(() => {
+    function element(tag, className, text) {
+        const node = document.createElement(tag);
+        if (className) {
+            node.className = className;
+        }
+        if (text !== undefined) {
+            node.textContent = text;
+        }
+        return node;
+    }
+
+    function infoItem(label, value) {
+        const item = element('div', 'info-item');
+        item.append(element('label', '', label + ':'), element('span', 'info-value', value));
+        return item;
+    }
+
+    function addresses(list) {
+        return list.length > 0 ? list.map(address => address.cidr || address.address).join(', ') : 'none';
+    }
+
+    function render(display, report) {
+        display.replaceChildren(element('p', '', 'Hostname: ' + report.hostname));
+        for (const networkInterface of report.interfaces) {
+            const block = element('div', 'who-am-i-network-interface');
+            const grid = element('div', 'info-grid');
+            grid.append(
+                infoItem('IPv4', addresses(networkInterface.ipv4)),
+                infoItem('IPv6', addresses(networkInterface.ipv6)),
+                infoItem('MAC', networkInterface.mac || 'none')
+            );
+            block.append(element('h3', '', networkInterface.name + (networkInterface.internal ? ' (internal)' : ' (external)')), grid);
+            display.append(block);
+        }
+        const proxies = report.proxies.length > 0
+            ? report.proxies.map(proxy => proxy.source + ': ' + proxy.value).join('; ')
+            : 'No proxy configured';
+        display.append(element('p', '', 'Proxy: ' + proxies));
+    }
+
+    document.addEventListener('DOMContentLoaded', () => {
+        let section = document.getElementById('network-section');
+        if (!section) {
+            section = element('section', 'card');
+            section.id = 'network-section';
+            section.append(element('h2', '', 'Your Local Network'));
+            (document.querySelector('main') || document.body).append(section);
+        }
+        const button = element('button', 'secondary-btn', 'Show Local Network');
+        const display = element('div', 'who-am-i-network');
+        section.append(button, display);
+
+        button.addEventListener('click', async () => {
+            try {
+                const report = await whoAmIProtocol.request('getNetworkReport');
+                render(display, report);
+                whoAmIState.update({ networkReport: report });
+            } catch (error) {
+                display.replaceChildren(element('p', 'who-am-i-network-error', 'Failed to read the local network: ' + error.message));
+            }
+        });
+
+        const state = whoAmIState.get();
+        if (state.networkReport) {
+            render(display, state.networkReport);
+        }
+    });
+})();
+`;
+
+// A doctype, possibly after comments, which must stay the first thing in the page
+const DOCTYPE = /^\s*(?:<!--[\s\S]*?-->\s*)*<!doctype[^>]*>/i;
+
+interface PreparedPage {
+  html: string;
+  /** Local files the page loads, directly or through its stylesheets */
+  assets: vscode.Uri[];
+  /** References to local files that do not exist */
+  missing: string[];
+}
+
+/**
+ * Point every local asset reference of the page at its webview URI and append the extension's scripts.
+ * Stylesheets are checked for the fonts and images they use, which the webview resolves relative to the
+ * stylesheet itself. Missing assets are listed in a banner at the top of the page.
+ *
+ * The page gets a Content-Security-Policy under which only the page's local script files and the extension's
+ * scripts run, each tagged with a fresh nonce. Inline scripts and event handler attributes are blocked.
+ */
+function preparePage(webview: vscode.Webview, documentUri: vscode.Uri, text: string, extraOrigins: string[]): PreparedPage {
+  const model = parseHtmlDocument(text);
+  const nonce = createNonce();
+  // Clicks are mapped back to the DOM Visualizer by offset, which only works when the ranges are right
+  const edits: TextEdit[] = model.reliable ? offsetMarkerEdits(model, OFFSET_ATTRIBUTE) : [];
+  const assets: vscode.Uri[] = [];
+  const missing: string[] = [];
+
+  for (const reference of findAssetReferences(model)) {
+    if (!isLocalReference(reference.url)) {
+      continue;
+    }
+    const { path: filePath, suffix } = splitReference(reference.url);
+    const assetUri = resolveReference(documentUri, filePath);
+    if (!fs.existsSync(assetUri.fsPath)) {
+      missing.push(reference.url);
+      continue;
+    }
+    assets.push(assetUri);
+    edits.push({ start: reference.start, end: reference.end, newText: webview.asWebviewUri(assetUri).toString() + suffix });
+
+    if (path.extname(assetUri.fsPath).toLowerCase() === '.css') {
+      for (const cssReference of findCssReferences(readText(assetUri)).filter(ref => isLocalReference(ref.url))) {
+        const cssAssetUri = resolveReference(assetUri, splitReference(cssReference.url).path);
+        if (fs.existsSync(cssAssetUri.fsPath)) {
+          assets.push(cssAssetUri);
+        } else {
+          missing.push(`${cssReference.url} (from ${reference.url})`);
+        }
+      }
+    }
+  }
+
+  for (const node of model.allElements()) {
+    const src = attributeSpans(model, node).find(span => span.name === 'src');
+    const srcValue = src?.valueStart !== undefined ? text.substring(src.valueStart, src.valueEnd) : undefined;
+    // Inline scripts are not trusted: markup pasted into the page could otherwise talk to the extension
+    const trusted = node.tagName === 'style' || (node.tagName === 'script' && srcValue !== undefined && isLocalReference(srcValue.trim()));
+    if (trusted) {
+      edits.push(...setAttributeEdits(model, node, 'nonce', nonce));
+    }
+  }
+
+  const policy = buildContentSecurityPolicy({ cspSource: webview.cspSource, nonce, connectOrigins: [], extraOrigins });
+  const elements = model.allElements();
+  const policyParent = elements.find(node => node.tagName === 'head') || elements.find(node => node.tagName === 'html');
+  const policyAt = policyParent ? policyParent.startTagEnd : (DOCTYPE.exec(text)?.[0].length ?? 0);
+  // The bridge comes before any page script, so it is the one to claim the VS Code API
+  edits.push({
+    start: policyAt,
+    end: policyAt,
+    newText: `\n<meta http-equiv="Content-Security-Policy" content="${policy}">`
+      + `\n<script nonce="${nonce}">${buildBridgeScript(documentUri)}</script>`
+  });
+
+  const body = elements.find(node => node.tagName === 'body');
+  const bodyStart = body ? body.startTagEnd : text.length;
+  const bodyEnd = body && body.endTagStart < body.end ? body.endTagStart : text.length;
+  if (missing.length > 0) {
+    edits.push({ start: bodyStart, end: bodyStart, newText: buildMissingAssetsBanner(missing) });
+  }
+  edits.push({
+    start: bodyEnd,
+    end: bodyEnd,
+    newText: `<style nonce="${nonce}">${EXTENSION_CSS}</style>\n`
+      + `<script nonce="${nonce}">${NETWORK_SCRIPT}</script>\n`
+      + `<script nonce="${nonce}">${APP_SCRIPT}</script>\n`
+  });
+
+  return { html: applyEditsToText(text, edits), assets, missing };
+}
+
+/**
+ * The file a reference points at. Root-relative references start at the workspace folder.
+ */
+function resolveReference(baseUri: vscode.Uri, reference: string): vscode.Uri {
+  let decoded = reference;
+  try {
+    decoded = decodeURIComponent(reference);
+  } catch (error) {
+    // Keep malformed escapes as written
+  }
+  if (decoded.startsWith('/')) {
+    const folder = vscode.workspace.getWorkspaceFolder(baseUri);
+    return vscode.Uri.joinPath(folder ? folder.uri : vscode.Uri.joinPath(baseUri, '..'), decoded);
+  }
+  return vscode.Uri.joinPath(baseUri, '..', decoded);
+}
+
+function buildMissingAssetsBanner(missing: string[]): string {
+  const items = missing.map(url => `<li><code>${escapeHtml(url)}</code></li>`).join('');
+  return `
+<div id="who-am-i-missing-assets" class="who-am-i-missing-assets" role="alert">
+    <strong>⚠️ ${missing.length === 1 ? 'An asset could not be found' : `${missing.length} assets could not be found`}</strong>
+    <ul>${items}</ul>
+</div>
+`;
+}
+
+/**
+ * Extra origins from the settings. Invalid entries are skipped, as they could break or widen the policy.
+ */
+function allowedOrigins(): string[] {
+  const configured = vscode.workspace.getConfiguration('whoAmI').get<string[]>('webview.allowedOrigins', []);
+  const invalid = configured.filter(origin => !isValidOrigin(origin));
+  if (invalid.length > 0) {
+    console.warn(`Ignoring invalid entries in whoAmI.webview.allowedOrigins: ${invalid.join(', ')}`);
+  }
+  return configured.filter(isValidOrigin);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function buildErrorContent(documentUri: vscode.Uri, error: unknown): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'">
+    <title>Who am I - Error</title>
+    <style>
+        body { 
+            font-family: var(--vscode-font-family); 
+            color: var(--vscode-foreground); 
+            background-color: var(--vscode-editor-background); 
+            padding: 20px; 
+        }
+    </style>
+</head>
+<body>
+    <h1>⚠️ Error Loading Content</h1>
+    <p>Could not load the HTML file.</p>
+    <p><strong>Error:</strong> ${error}</p>
+    <p>Make sure ${path.basename(documentUri.fsPath)} exists in ${path.dirname(documentUri.fsPath)}.</p>
+</body>
+</html>`;
+}
@@ -0,0 +1,15 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * The least nested who_am_i.html in the workspace folder, if any
+ */
+export async function findWhoAmIDocument(folder: vscode.WorkspaceFolder): Promise<vscode.Uri | undefined> {
+  const candidates = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(folder, '**/who_am_i.html'),
+    new vscode.RelativePattern(folder, '**/node_modules/**'),
+    20
+  );
+  const depth = (uri: vscode.Uri) => path.relative(folder.uri.fsPath, uri.fsPath).split(path.sep).length;
+  return candidates.sort((a, b) => depth(a) - depth(b))[0];
+}
@@ -2,41 +2,46 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
-import { DOMVisualizerProvider } from "./TreeDataProvider";
-
-// Check whether the opened workspace contains the required who_am_i.html file
-function isWhoAmIWorkspaceOpen(): boolean {
-  const folders = vscode.workspace.workspaceFolders;
-  if (!folders || folders.length === 0) {
-    return false;
-  }
+import { DOMVisualizerProvider, Dependency, DomContentItem } from "./TreeDataProvider";
+import { parseHtmlDocument } from "./HtmlDocumentModel";
+import { canEditStructure } from "./DomEditCommands";
+import { registerDomVisualizer } from "./DomVisualizer";
+import { WhoAmIWebviewManager, registerWhoAmIWebview } from "./WhoAmIWebview";
+import { BACKED_UP_FILES, SnapshotStore, migrateBackupSettings } from "./SnapshotStore";
+import { registerBackupsView } from "./BackupsView";
+import { registerDomDiffView } from "./DomDiffView";
+import { IpLookupService, getStoredPublicAddresses } from "./IpLookupService";
+import { registerIpHistoryView } from "./IpHistoryView";
+import { registerIpStatusBar } from "./IpStatusBar";
+import { registerNetworkReportCommand } from "./NetworkReportCommand";
+
+// Check whether a workspace folder contains the required who_am_i.html file
+function isWhoAmIFolder(folder: vscode.WorkspaceFolder): boolean {
+  return fs.existsSync(path.join(folder.uri.fsPath, "who_am_i.html"));
+}
 
-  for (const folder of folders) {
-    const candidate = path.join(folder.uri.fsPath, "who_am_i.html");
-    if (fs.existsSync(candidate)) {
-      return true;
-    }
-  }
-  return false;
+// The workspace folders that contain who_am_i.html
+function whoAmIFolders(): vscode.WorkspaceFolder[] {
+  return (vscode.workspace.workspaceFolders || []).filter(isWhoAmIFolder);
 }
 
-// Show activation information dialog
-function showWhoAmIActivationMessage() {
-  const message = '"Who Am I" extension is now active!';
+// Show activation information dialog for the given who_am_i.html folders
+function showWhoAmIActivationMessage(folders: readonly vscode.WorkspaceFolder[]) {
+  const message = folders.length > 1
+    ? `"Who Am I" extension is now active for ${folders.map((folder) => folder.name).join(", ")}!`
+    : '"Who Am I" extension is now active!';
   vscode.window
     .showInformationMessage(message, "Open who_am_i.html", "View in Browser")
     .then((selection) => {
       if (selection === "Open who_am_i.html") {
-        openWhoAmIFileInEditor();
+        openWhoAmIFileInEditor(folders);
       } else if (selection === "View in Browser") {
-        openWhoAmIFileInBrowser();
+        openWhoAmIFileInBrowser(folders);
       }
     });
 }
 
-async function openWhoAmIFileInEditor() {
-  const folders = vscode.workspace.workspaceFolders;
-  if (!folders) return;
+async function openWhoAmIFileInEditor(folders: readonly vscode.WorkspaceFolder[]) {
   for (const folder of folders) {
     const candidate = path.join(folder.uri.fsPath, "who_am_i.html");
     if (fs.existsSync(candidate)) {
@@ -47,9 +52,7 @@ async function openWhoAmIFileInEditor() {
   }
 }
 
-async function openWhoAmIFileInBrowser() {
-  const folders = vscode.workspace.workspaceFolders;
-  if (!folders) return;
+async function openWhoAmIFileInBrowser(folders: readonly vscode.WorkspaceFolder[]) {
   for (const folder of folders) {
     const candidate = path.join(folder.uri.fsPath, "who_am_i.html");
     if (fs.existsSync(candidate)) {
@@ -63,14 +66,13 @@ async function openWhoAmIFileInBrowser() {
 export function activate(context: vscode.ExtensionContext) {
   console.log('"Who Am I" extension activating...');
 
-  // If the correct workspace is open, show activation message.
-  if (isWhoAmIWorkspaceOpen()) {
-    showWhoAmIActivationMessage();
+  // If any workspace folder contains who_am_i.html, show activation message.
+  const initialWhoAmIFolders = whoAmIFolders();
+  if (initialWhoAmIFolders.length > 0) {
+    showWhoAmIActivationMessage(initialWhoAmIFolders);
   } else {
-    // If not, show an error message guiding the user.
-    vscode.window.showErrorMessage(
-      '"Who Am I" workspace not detected. Open a folder containing who_am_i.html to activate the extension.'
-    );
+    // Opening any HTML file activates the extension for the DOM Visualizer, so only log here
+    console.log('"Who Am I" workspace not detected. Open a folder containing who_am_i.html for the full feature set.');
   }
 
   // Register a command to open the bundled template workspace (optional helper)
@@ -103,146 +105,71 @@ export function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(openTemplateCmd);
 
-  // Register DOM Visualizer TreeDataProvider
-  const rootPath =
-    vscode.workspace.workspaceFolders &&
-    vscode.workspace.workspaceFolders.length > 0
-      ? vscode.workspace.workspaceFolders[0].uri.fsPath
-      : undefined;
-
-  console.log("Root path for DOM Visualizer:", rootPath);
-
-  if (rootPath) {
-    // Check if who_am_i.html exists in the root path
-    const htmlFilePath = path.join(rootPath, "who_am_i.html");
-    console.log("Looking for who_am_i.html at:", htmlFilePath);
-    console.log("who_am_i.html exists:", fs.existsSync(htmlFilePath));
-
-    // Register the DOM visualizer tree data provider
-    const domProvider = new DOMVisualizerProvider(rootPath);
-    vscode.window.registerTreeDataProvider("domVisualizer", domProvider);
-    
-    // Store provider reference globally (not on context since it's not extensible)
-    (global as any).domProvider = domProvider;
-    
-    // Add file watcher to refresh TreeView when HTML files change
-    const watcher = vscode.workspace.createFileSystemWatcher('**/who_am_i.html');
-    
-    watcher.onDidChange(() => {
-      console.log('who_am_i.html file changed, refreshing TreeView');
-      domProvider.refresh();
-    });
-    
-    watcher.onDidCreate(() => {
-      console.log('who_am_i.html file created, refreshing TreeView');
-      domProvider.refresh();
-    });
-    
-    watcher.onDidDelete(() => {
-      console.log('who_am_i.html file deleted, refreshing TreeView');
-      domProvider.refresh();
-    });
+  // Backups are kept in the workspace's storage, or the global storage when no folder is open
+  const snapshots = new SnapshotStore(
+    vscode.Uri.joinPath(context.storageUri || context.globalStorageUri, "snapshots")
+  );
 
-    context.subscriptions.push(watcher);
-  } else {
-    console.log("No workspace folders found - DOM Visualizer not registered");
-  }
+  registerBackupsView(context, snapshots);
 
-  // Also re-check when the workspace folders change while the extension is active
-  const watcher = vscode.workspace.onDidChangeWorkspaceFolders(() => {
-    if (isWhoAmIWorkspaceOpen()) {
-      showWhoAmIActivationMessage();
-    }
-  });
+  // Register the "Open as WebView" panels, which render the workspace's who_am_i.html
+  // IP lookups run in the extension host with the services chosen in the settings
+  const ipLookup = new IpLookupService();
+  const ipHistory = registerIpHistoryView(context, ipLookup);
+  registerIpStatusBar(context, ipLookup, ipHistory);
+  registerNetworkReportCommand(context);
+  const webviewManager = registerWhoAmIWebview(context, ipLookup);
 
-  context.subscriptions.push(watcher);
+  // Register the DOM Visualizer tree view, which follows the active HTML editor
+  const domProvider = registerDomVisualizer(context, webviewManager, snapshots);
 
-  context.subscriptions.push(
-    vscode.commands.registerCommand("helloworld.openAsWebview", () => {
-      // Create and show a new webview
-      const panel = vscode.window.createWebviewPanel(
-        "whoAmIWebview", // Identifies the type of the webview. Used internally
-        "Who am I", // Title of the panel displayed to the user
-        vscode.ViewColumn.One, // Editor column to show the new webview panel in.
-        {
-          // Enable scripts in the webview
-          enableScripts: true,
-          // Restrict the webview to only loading content from our extension's directory
-          localResourceRoots: [
-            vscode.Uri.joinPath(context.extensionUri, "src"),
-            vscode.Uri.joinPath(context.extensionUri, "who_am_i_workspace"),
-          ],
-        }
-      );
-
-      // Handle messages from the webview
-      panel.webview.onDidReceiveMessage(
-        async (message) => {
-          switch (message.command) {
-            case 'saveIpAddress':
-              try {
-                // Save IP address to user settings
-                const config = vscode.workspace.getConfiguration();
-                await config.update('public_ip_address', message.ipAddress, vscode.ConfigurationTarget.Global);
-                
-                // Send confirmation back to webview
-                panel.webview.postMessage({
-                  command: 'ipAddressSaved',
-                  success: true,
-                  ipAddress: message.ipAddress
-                });
-                
-                // Show information message to user
-                vscode.window.showInformationMessage(`IP address ${message.ipAddress} saved to user settings.`);
-                
-                console.log(`IP address saved to user settings: ${message.ipAddress}`);
-              } catch (error) {
-                console.error('Error saving IP address to settings:', error);
-                panel.webview.postMessage({
-                  command: 'ipAddressSaved',
-                  success: false,
-                  error: error instanceof Error ? error.message : 'Unknown error'
-                });
-                vscode.window.showErrorMessage('Failed to save IP address to settings.');
-              }
-              break;
-            case 'getStoredIpAddress':
-              try {
-                // Get stored IP address from user settings
-                const config = vscode.workspace.getConfiguration();
-                const storedIp = config.get('public_ip_address') as string;
-                
-                panel.webview.postMessage({
-                  command: 'storedIpAddress',
-                  ipAddress: storedIp || null
-                });
-              } catch (error) {
-                console.error('Error getting stored IP address:', error);
-                panel.webview.postMessage({
-                  command: 'storedIpAddress',
-                  ipAddress: null
-                });
-              }
-              break;
-          }
-        },
-        undefined,
-        context.subscriptions
-      );
+  // Compare backups with their file element by element
+  registerDomDiffView(context, domProvider, snapshots);
 
-      // Load content from the HTML file
-      panel.webview.html = getWebviewContentFromFile(context);
+  // Clicking a DOM Visualizer node selects the element in the editor
+  context.subscriptions.push(
+    vscode.commands.registerCommand("helloworld.revealDomElement", async (item: Dependency | DomContentItem) => {
+      try {
+        await revealElementInEditor(item);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to reveal HTML element: ${error}`);
+      }
     })
   );
 
+  // Set up folders added while the extension is active like the ones present at activation.
+  // The DOM Visualizer adds and removes the folders' documents itself.
+  const watcher = vscode.workspace.onDidChangeWorkspaceFolders((event) => {
+    for (const folder of event.removed) {
+      console.log(`Workspace folder ${folder.name} removed`);
+    }
+    if (event.added.length === 0) {
+      return;
+    }
+
+    migrateBackupSettings(context, snapshots, event.added)
+      .then(() => backupOriginalFiles(snapshots, event.added))
+      .catch((error) => vscode.window.showErrorMessage(`Error backing up the original files: ${error}`));
+    const addedWhoAmIFolders = event.added.filter(isWhoAmIFolder);
+    if (addedWhoAmIFolders.length > 0) {
+      showWhoAmIActivationMessage(addedWhoAmIFolders);
+    }
+  });
+
+  context.subscriptions.push(watcher);
+
   // Add command to show stored IP address
   context.subscriptions.push(
     vscode.commands.registerCommand("helloworld.showStoredIpAddress", () => {
       try {
         const config = vscode.workspace.getConfiguration();
         const storedIp = config.get('public_ip_address') as string;
+        const { ipv4, ipv6, ipv6Connectivity } = getStoredPublicAddresses();
         
-        if (storedIp) {
+        if (ipv4 || ipv6) {
+          const ipv6Text = ipv6 || (ipv6Connectivity === false ? 'no IPv6 connectivity' : 'unknown');
+          vscode.window.showInformationMessage(`Stored IP Addresses: IPv4 ${ipv4 || 'unknown'}, IPv6 ${ipv6Text}`);
+        } else if (storedIp) {
           vscode.window.showInformationMessage(`Stored IP Address: ${storedIp}`);
         } else {
           vscode.window.showInformationMessage('No IP address has been stored yet. Use the "Who Am I" tool to fetch and save your IP address.');
@@ -259,7 +186,8 @@ export function activate(context: vscode.ExtensionContext) {
       try {
         const config = vscode.workspace.getConfiguration();
         await config.update('public_ip_address', undefined, vscode.ConfigurationTarget.Global);
-        vscode.window.showInformationMessage('Stored IP address has been cleared.');
+        await config.update('whoAmI.publicAddresses', undefined, vscode.ConfigurationTarget.Global);
+        vscode.window.showInformationMessage('Stored IP addresses have been cleared.');
       } catch (error) {
         vscode.window.showErrorMessage('Failed to clear stored IP address.');
       }
@@ -296,8 +224,12 @@ export function activate(context: vscode.ExtensionContext) {
         
         console.log(`Attempting to remove HTML element at position ${cursorOffset}`);
         
-        // Find the complete HTML element that contains the cursor/selection
-        const elementRange = findCompleteHtmlElement(fullText, cursorOffset);
+        // Find the innermost HTML element that contains the cursor/selection
+        const model = parseHtmlDocument(fullText);
+        if (!canEditStructure(model)) {
+          return;
+        }
+        const elementRange = model.elementAt(cursorOffset);
         
         if (!elementRange) {
           // Provide more helpful error message
@@ -329,6 +261,8 @@ export function activate(context: vscode.ExtensionContext) {
           return;
         }
 
+        await snapshots.takeSnapshot(document.uri, fullText, "Before removing an element");
+
         // Remove the element by replacing it with empty string
         const edit = new vscode.WorkspaceEdit();
         const range = new vscode.Range(
@@ -345,7 +279,7 @@ export function activate(context: vscode.ExtensionContext) {
           vscode.window.showInformationMessage('HTML element and its children removed successfully.');
           
           // Refresh TreeView and WebView
-          refreshViews();
+          refreshViews(domProvider, webviewManager);
         } else {
           vscode.window.showErrorMessage('Failed to remove HTML element.');
         }
@@ -368,8 +302,11 @@ export function activate(context: vscode.ExtensionContext) {
     console.log(`Command 'helloworld.removeHtmlElement' registered: ${hasRemoveCommand}`);
   });
 
-  // Step 7: Backup original files when extension activates
-  backupOriginalFiles();
+  // Step 7: Backup original files when extension activates, once backups from older versions are moved over
+  const initialFolders = vscode.workspace.workspaceFolders || [];
+  migrateBackupSettings(context, snapshots, initialFolders)
+    .then(() => backupOriginalFiles(snapshots, initialFolders))
+    .catch((error) => vscode.window.showErrorMessage(`Error backing up the original files: ${error}`));
 
   // Step 7: Command to recover original files
   context.subscriptions.push(
@@ -383,7 +320,7 @@ export function activate(context: vscode.ExtensionContext) {
 
       try {
         const fileName = path.basename(editor.document.fileName);
-        const backupContent = await getBackupContent(editor.document.uri);
+        const backupContent = await getBackupContent(snapshots, editor.document.uri);
         
         if (!backupContent) {
           vscode.window.showErrorMessage(`No backup found for ${fileName}. The file may not have been backed up yet.`);
@@ -392,13 +329,15 @@ export function activate(context: vscode.ExtensionContext) {
 
         // Show confirmation dialog
         const result = await vscode.window.showWarningMessage(
-          `This will replace the current content of ${fileName} with the original backup. This action cannot be undone.`,
+          `This will replace the current content of ${fileName} with the original backup. The current content is backed up first.`,
           { modal: true },
           'Recover Original',
           'Cancel'
         );
 
         if (result === 'Recover Original') {
+          await snapshots.takeSnapshot(editor.document.uri, editor.document.getText(), 'Before recovering the original');
+
           // Replace entire file content with backup
           const edit = new vscode.WorkspaceEdit();
           const fullRange = new vscode.Range(
@@ -415,7 +354,7 @@ export function activate(context: vscode.ExtensionContext) {
             vscode.window.showInformationMessage(`${fileName} has been recovered to its original state.`);
             
             // Reset TreeView and other extension state
-            resetExtensionState();
+            resetExtensionState(domProvider, webviewManager);
           } else {
             vscode.window.showErrorMessage('Failed to recover the original file.');
           }
@@ -430,79 +369,36 @@ export function activate(context: vscode.ExtensionContext) {
   // Step 7: Command to show available backups
   context.subscriptions.push(
     vscode.commands.registerCommand("helloworld.showBackups", async () => {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      
-      if (!workspaceFolder) {
-        vscode.window.showErrorMessage('No workspace folder found.');
-        return;
-      }
-
-      try {
-        const config = vscode.workspace.getConfiguration('whoAmI', workspaceFolder.uri);
-        const allSettings = config.inspect('');
-        
-        // Get all backup keys from workspace configuration
-        const workspaceConfig = (allSettings as any)?.workspaceValue || {};
-        const backupKeys = Object.keys(workspaceConfig).filter(key => key.startsWith('backup_') && !key.endsWith('_timestamp'));
-        
-        if (backupKeys.length === 0) {
-          vscode.window.showInformationMessage('No backups found in the current workspace.');
-          return;
-        }
-
-        const backupList = backupKeys.map(key => {
-          const fileName = key.replace('backup_', '');
-          const content = config.get(key) as string;
-          const size = content ? `${Math.round(content.length / 1024 * 100) / 100} KB` : 'Unknown';
-          const timestampKey = `${key}_timestamp`;
-          const timestamp = config.get(timestampKey) as string;
-          const timeStr = timestamp ? new Date(timestamp).toLocaleString() : 'Unknown';
-          return `• ${fileName} (${size}) - Created: ${timeStr}`;
-        }).join('\n');
-
-        vscode.window.showInformationMessage(
-          `Found ${backupKeys.length} backup(s):\n\n${backupList}`,
-          { modal: true }
-        );
-        
-      } catch (error) {
-        vscode.window.showErrorMessage(`Error retrieving backups: ${error}`);
-      }
+      // Every backup of every file is listed in the backups view
+      await vscode.commands.executeCommand("whoAmIBackups.focus");
     })
   );
 
   // Step 7: Command to clear all backups
   context.subscriptions.push(
     vscode.commands.registerCommand("helloworld.clearBackups", async () => {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      
-      if (!workspaceFolder) {
+      if (!vscode.workspace.workspaceFolders?.length) {
         vscode.window.showErrorMessage('No workspace folder found.');
         return;
       }
+      const workspaceFolder = await pickWorkspaceFolder('Clear the backups of which folder?');
+      if (!workspaceFolder) {
+        return;
+      }
 
       try {
         const result = await vscode.window.showWarningMessage(
-          'This will permanently delete all backup files. This action cannot be undone.',
+          `This will permanently delete all backup files of ${workspaceFolder.name}. This action cannot be undone.`,
           { modal: true },
           'Clear All Backups',
           'Cancel'
         );
 
         if (result === 'Clear All Backups') {
-          const config = vscode.workspace.getConfiguration('whoAmI', workspaceFolder.uri);
-          const allSettings = config.inspect('');
+          const folderSnapshots = await snapshots.listFolder(workspaceFolder);
+          await snapshots.delete(folderSnapshots);
           
-          // Get all backup keys from workspace configuration
-          const workspaceConfig = (allSettings as any)?.workspaceValue || {};
-          const backupKeys = Object.keys(workspaceConfig).filter(key => key.startsWith('backup_'));
-          
-          // Clear all backup-related keys
-          for (const key of backupKeys) {
-            await config.update(key, undefined, vscode.ConfigurationTarget.Workspace);
-          }
-          
-          vscode.window.showInformationMessage(`Cleared ${backupKeys.length} backup entries.`);
+          vscode.window.showInformationMessage(`Cleared ${folderSnapshots.length} backup entries.`);
         }
         
       } catch (error) {
@@ -527,8 +423,16 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
+      const label = await vscode.window.showInputBox({
+        prompt: 'Label for the backup (optional)',
+        placeHolder: 'e.g. Before restyling the header'
+      });
+      if (label === undefined) {
+        return;
+      }
+
       try {
-        await backupSingleFile(editor.document.fileName, workspaceFolder.uri);
+        await snapshots.takeSnapshot(editor.document.uri, editor.document.getText(), label.trim() || 'Manual backup');
         const fileName = path.basename(editor.document.fileName);
         vscode.window.showInformationMessage(`${fileName} has been backed up successfully.`);
       } catch (error) {
@@ -537,324 +441,50 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 }
-function getWebviewContentFromFile(context: vscode.ExtensionContext): string {
-  const fs = require("fs");
-  const path = require("path");
-
-  try {
-    // Get path to the HTML file in who_am_i_workspace directory
-    const htmlPath = path.join(
-      context.extensionPath,
-      "who_am_i_workspace",
-      "who_am_i.html"
-    );
-    const cssPath = path.join(
-      context.extensionPath,
-      "who_am_i_workspace",
-      "who_am_i.css"
-    );
-    const jsPath = path.join(
-      context.extensionPath,
-      "who_am_i_workspace",
-      "who_am_i.js"
-    );
-
-    // Read the files
-    const htmlContent = fs.readFileSync(htmlPath, "utf8");
-    const cssContent = fs.readFileSync(cssPath, "utf8");
-    const jsContent = fs.readFileSync(jsPath, "utf8");
-
-    // Modify the JavaScript to add VS Code API communication
-    const modifiedJsContent = `
-// VS Code API for webview communication
-const vscode = acquireVsCodeApi();
-
-${jsContent}
-
-// Override the getIpAddress method to save to VS Code settings
-const originalClass = WhoAmI;
-class WhoAmIExtended extends originalClass {
-    async getIpAddress() {
-        try {
-            this.showLoading('ip');
-            this.hideError();
-
-            // Get IP address from API
-            const response = await fetch('https://api.ipify.org?format=json');
-            
-            if (!response.ok) {
-                throw new Error(\`HTTP error! status: \${response.status}\`);
-            }
-
-            const data = await response.json();
-            this.ipAddress = data.ip;
 
-            // Save IP address to VS Code user settings
-            vscode.postMessage({
-                command: 'saveIpAddress',
-                ipAddress: this.ipAddress
-            });
+// Open the node's document, scroll to its start and select the whole element, text, comment or attribute
+async function revealElementInEditor(item: Dependency | DomContentItem) {
+  const document = await vscode.workspace.openTextDocument(item.documentUri);
+  // Reuse an editor that already shows the document, e.g. next to the webview
+  const visibleEditor = vscode.window.visibleTextEditors.find(editor => editor.document.uri.toString() === document.uri.toString());
+  const editor = await vscode.window.showTextDocument(document, { viewColumn: visibleEditor?.viewColumn, preserveFocus: false });
 
-            this.hideLoading('ip');
-            this.displayIpAddress(this.ipAddress);
-            this.showDetailsSection();
+  const startPos = document.positionAt(item.start);
+  const endPos = document.positionAt(item.end);
 
-        } catch (error) {
-            console.error('Error getting IP address:', error);
-            this.hideLoading('ip');
-            this.showError('Failed to get your IP address. Please check your internet connection and try again.');
-        }
-    }
-
-    init() {
-        super.init();
-        
-        // Listen for messages from the extension
-        window.addEventListener('message', event => {
-            const message = event.data;
-            switch (message.command) {
-                case 'ipAddressSaved':
-                    if (message.success) {
-                        console.log('IP address successfully saved to user settings:', message.ipAddress);
-                    } else {
-                        console.error('Failed to save IP address:', message.error);
-                    }
-                    break;
-                case 'storedIpAddress':
-                    if (message.ipAddress) {
-                        console.log('Found stored IP address:', message.ipAddress);
-                        // Optionally pre-populate the IP if you want
-                        // this.ipAddress = message.ipAddress;
-                        // this.displayIpAddress(message.ipAddress);
-                    }
-                    break;
-            }
-        });
-
-        // Request stored IP address on initialization
-        vscode.postMessage({
-            command: 'getStoredIpAddress'
-        });
-    }
-}
-
-// Replace the global initialization
-document.addEventListener('DOMContentLoaded', () => {
-    window.whoAmIApp = new WhoAmIExtended();
-});
-`;
-
-    // Inline the CSS and modified JS into the HTML for webview compatibility
-    const webviewContent = htmlContent
-      .replace(
-        '<link rel="stylesheet" href="who_am_i.css" id="main-stylesheet">',
-        `<style id="main-stylesheet">\n${cssContent}\n</style>`
-      )
-      .replace(
-        '<script src="who_am_i.js" id="main-script"></script>',
-        `<script id="main-script">\n${modifiedJsContent}\n</script>`
-      );
-
-    return webviewContent;
-  } catch (error) {
-    console.error("Error reading HTML file:", error);
-    // Fallback to inline content if file reading fails
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Who am I - Error</title>
-    <style>
-        body { 
-            font-family: var(--vscode-font-family); 
-            color: var(--vscode-foreground); 
-            background-color: var(--vscode-editor-background); 
-            padding: 20px; 
-        }
-    </style>
-</head>
-<body>
-    <h1>⚠️ Error Loading Content</h1>
-    <p>Could not load the HTML file.</p>
-    <p><strong>Error:</strong> ${error}</p>
-    <p>Make sure the who_am_i.html file exists in the who_am_i_workspace directory.</p>
-</body>
-</html>`;
-  }
-}
-
-// Step 6: Helper function to find complete HTML element
-function findCompleteHtmlElement(text: string, offset: number): {start: number, end: number} | null {
-  console.log(`Looking for HTML element at offset ${offset}`);
-  
-  // Find the opening tag that contains or starts before the offset
-  let tagStart = -1;
-  let tagName = '';
-  
-  // First, search backwards for an opening tag
-  for (let i = offset; i >= 0; i--) {
-    if (text[i] === '<' && i < text.length - 1) {
-      // Skip comments and closing tags
-      if (text.substring(i, i + 4) === '<!--' || text[i + 1] === '/') {
-        continue;
-      }
-      
-      // Found potential opening tag
-      const remainingText = text.substring(i);
-      const tagMatch = remainingText.match(/^<([a-zA-Z][a-zA-Z0-9\-]*)[^>]*>/);
-      if (tagMatch) {
-        tagStart = i;
-        tagName = tagMatch[1].toLowerCase();
-        console.log(`Found opening tag: ${tagName} at position ${tagStart}`);
-        break;
-      }
-    }
-    
-    // If we hit a closing tag before finding an opening tag, stop searching backwards
-    if (text[i] === '>' && i > 0 && text[i - 1] !== '/') {
-      // Look for the start of this tag
-      let tagStartPos = i;
-      while (tagStartPos > 0 && text[tagStartPos] !== '<') {
-        tagStartPos--;
-      }
-      if (text[tagStartPos + 1] === '/') {
-        // This is a closing tag, we've gone too far
-        break;
-      }
-    }
-  }
-  
-  // If not found backwards, search forwards from cursor position
-  if (tagStart === -1) {
-    console.log('No opening tag found backwards, searching forwards...');
-    for (let i = offset; i < text.length; i++) {
-      if (text[i] === '<' && i < text.length - 1) {
-        // Skip comments and closing tags
-        if (text.substring(i, i + 4) === '<!--' || text[i + 1] === '/') {
-          continue;
-        }
-        
-        const remainingText = text.substring(i);
-        const tagMatch = remainingText.match(/^<([a-zA-Z][a-zA-Z0-9\-]*)[^>]*>/);
-        if (tagMatch) {
-          tagStart = i;
-          tagName = tagMatch[1].toLowerCase();
-          console.log(`Found opening tag forward: ${tagName} at position ${tagStart}`);
-          break;
-        }
-      }
-    }
-  }
-  
-  if (tagStart === -1 || !tagName) {
-    console.log('No HTML tag found');
-    return null;
-  }
-  
-  // Find the end of the opening tag
-  const openingTagEnd = text.indexOf('>', tagStart);
-  if (openingTagEnd === -1) {
-    console.log('Malformed opening tag');
-    return null;
-  }
-  
-  const openingTag = text.substring(tagStart, openingTagEnd + 1);
-  
-  // Check if it's a self-closing tag
-  if (openingTag.endsWith('/>')) {
-    console.log(`Self-closing tag found: ${tagName}`);
-    return { start: tagStart, end: openingTagEnd + 1 };
-  }
-  
-  // Check if it's a void element (doesn't need closing tag)
-  const voidElements = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'];
-  if (voidElements.includes(tagName)) {
-    console.log(`Void element found: ${tagName}`);
-    return { start: tagStart, end: openingTagEnd + 1 };
-  }
-  
-  // Find matching closing tag
-  const closingTag = `</${tagName}>`;
-  let depth = 1;
-  let searchStart = openingTagEnd + 1;
-  
-  console.log(`Looking for closing tag: ${closingTag}`);
-  
-  while (depth > 0 && searchStart < text.length) {
-    // Look for any opening or closing tag of the same type
-    const nextOpenPattern = new RegExp(`<${tagName}(?:\\s|>)`, 'i');
-    const nextOpenMatch = nextOpenPattern.exec(text.substring(searchStart));
-    const nextOpenPos = nextOpenMatch ? searchStart + nextOpenMatch.index : -1;
-    
-    const nextClosePos = text.indexOf(closingTag, searchStart);
-    
-    if (nextClosePos === -1) {
-      console.log(`No matching closing tag found for ${tagName}`);
-      return null;
-    }
-    
-    if (nextOpenPos !== -1 && nextOpenPos < nextClosePos) {
-      // Found another opening tag before the closing tag
-      console.log(`Found nested ${tagName} tag, increasing depth`);
-      depth++;
-      searchStart = nextOpenPos + tagName.length + 1;
-    } else {
-      // Found a closing tag
-      depth--;
-      console.log(`Found closing tag, depth now: ${depth}`);
-      if (depth === 0) {
-        const endPos = nextClosePos + closingTag.length;
-        console.log(`Complete element found: ${tagStart} to ${endPos}`);
-        return { start: tagStart, end: endPos };
-      }
-      searchStart = nextClosePos + closingTag.length;
-    }
-  }
-  
-  console.log(`Unmatched opening tag: ${tagName}`);
-  return null;
+  // Keep the cursor on the opening tag so the reveal does not jump to the closing tag
+  editor.selection = new vscode.Selection(endPos, startPos);
+  editor.revealRange(new vscode.Range(startPos, startPos), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
 }
 
 // Helper function to refresh TreeView and WebView
-function refreshViews() {
-  // Get the stored provider reference and refresh TreeView
-  const activeContext = (global as any).extensionContext;
-  if (activeContext && (activeContext as any).domProvider) {
-    (activeContext as any).domProvider.refresh();
-    console.log('TreeView refreshed after HTML element removal');
-  } else {
-    console.log('TreeView provider not found, using fallback refresh');
-    // Fallback: reload the entire window if provider reference is lost
-    vscode.commands.executeCommand('workbench.action.reloadWindow');
-  }
+function refreshViews(domProvider: DOMVisualizerProvider, webviewManager: WhoAmIWebviewManager) {
+  domProvider.refresh();
+  console.log('TreeView refreshed after HTML element removal');
+
+  // Re-render open webview panels right away instead of waiting for the save to be picked up
+  webviewManager.refresh();
+  console.log('WebView refreshed after HTML element removal');
 }
 
 // Step 7: Helper functions for backup and recovery
 
-// Backup original files when extension activates
-async function backupOriginalFiles() {
+// Backup original files of the workspace folders when extension activates or folders are added
+async function backupOriginalFiles(snapshots: SnapshotStore, folders: readonly vscode.WorkspaceFolder[]) {
   console.log('Starting backup of original files...');
   
-  const folders = vscode.workspace.workspaceFolders;
-  if (!folders || folders.length === 0) {
+  if (folders.length === 0) {
     console.log('No workspace folders found for backup');
     return;
   }
 
   for (const folder of folders) {
     // Look for who_am_i.html files in various locations
-    const filesToBackup = [
-      path.join(folder.uri.fsPath, "who_am_i.html"),
-      path.join(folder.uri.fsPath, "who_am_i_workspace", "who_am_i.html"),
-      path.join(folder.uri.fsPath, "who_am_i_workspace", "who_am_i.css"),
-      path.join(folder.uri.fsPath, "who_am_i_workspace", "who_am_i.js")
-    ];
-
-    for (const filePath of filesToBackup) {
+    for (const file of BACKED_UP_FILES) {
+      const filePath = path.join(folder.uri.fsPath, ...file.split('/'));
       if (fs.existsSync(filePath)) {
         try {
-          await backupSingleFile(filePath, folder.uri);
+          await backupSingleFile(snapshots, vscode.Uri.file(filePath));
         } catch (error) {
           console.error(`Error backing up ${filePath}:`, error);
         }
@@ -865,46 +495,36 @@ async function backupOriginalFiles() {
   console.log('Backup process completed');
 }
 
-// Backup a single file to workspace settings
-async function backupSingleFile(filePath: string, workspaceUri: vscode.Uri) {
-  try {
-    const fileName = path.basename(filePath);
-    const config = vscode.workspace.getConfiguration('whoAmI', workspaceUri);
-    
-    // Check if backup already exists
-    const backupKey = `backup_${fileName}`;
-    const existingBackup = config.get(backupKey);
-    
-    if (!existingBackup) {
-      const content = fs.readFileSync(filePath, 'utf8');
-      await config.update(backupKey, content, vscode.ConfigurationTarget.Workspace);
-      console.log(`Created backup for ${fileName}`);
-      
-      // Also store backup timestamp
-      await config.update(`${backupKey}_timestamp`, new Date().toISOString(), vscode.ConfigurationTarget.Workspace);
-    } else {
-      console.log(`Backup already exists for ${fileName}`);
-    }
-  } catch (error) {
-    console.error(`Error backing up file ${filePath}:`, error);
-    throw error;
+// Snapshot a file as its original, unless it already has one
+async function backupSingleFile(snapshots: SnapshotStore, fileUri: vscode.Uri) {
+  const fileName = path.basename(fileUri.fsPath);
+  if (await snapshots.original(fileUri)) {
+    console.log(`Backup already exists for ${fileName}`);
+    return;
   }
+
+  const content = fs.readFileSync(fileUri.fsPath, 'utf8');
+  await snapshots.takeSnapshot(fileUri, content, 'Original');
+  console.log(`Created backup for ${fileName}`);
 }
 
-// Get backup content for a file
-async function getBackupContent(fileUri: vscode.Uri): Promise<string | null> {
-  try {
-    const workspaceFolder = vscode.workspace.getWorkspaceFolder(fileUri);
-    if (!workspaceFolder) {
-      return null;
-    }
+// The folder a folder-scoped command acts on: the only one, the one of the active editor, or the user's choice
+async function pickWorkspaceFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+  const folders = vscode.workspace.workspaceFolders || [];
+  if (folders.length <= 1) {
+    return folders[0];
+  }
+
+  const activeUri = vscode.window.activeTextEditor?.document.uri;
+  const activeFolder = activeUri && vscode.workspace.getWorkspaceFolder(activeUri);
+  return activeFolder || vscode.window.showWorkspaceFolderPick({ placeHolder });
+}
 
-    const fileName = path.basename(fileUri.fsPath);
-    const config = vscode.workspace.getConfiguration('whoAmI', workspaceFolder.uri);
-    const backupKey = `backup_${fileName}`;
-    
-    const backup = config.get(backupKey) as string;
-    return backup || null;
+// Get the original backup content for a file
+async function getBackupContent(snapshots: SnapshotStore, fileUri: vscode.Uri): Promise<string | null> {
+  try {
+    const original = await snapshots.original(fileUri);
+    return original ? await snapshots.getContent(original) : null;
   } catch (error) {
     console.error('Error getting backup content:', error);
     return null;
@@ -912,15 +532,15 @@ async function getBackupContent(fileUri: vscode.Uri): Promise<string | null> {
 }
 
 // Reset extension state after recovery
-function resetExtensionState() {
+function resetExtensionState(domProvider: DOMVisualizerProvider, webviewManager: WhoAmIWebviewManager) {
   console.log('Resetting extension state...');
   
-  // Refresh TreeView if it exists
-  const domProvider = (global as any).domProvider;
-  if (domProvider && typeof domProvider.refresh === 'function') {
-    domProvider.refresh();
-    console.log('TreeView refreshed after recovery');
-  }
+  domProvider.refresh();
+  console.log('TreeView refreshed after recovery');
+
+  // Re-render webview panels of the recovered file
+  webviewManager.refresh();
+  console.log('WebView refreshed after recovery');
   
   // You can add more state reset logic here if needed
   console.log('Extension state reset completed');
@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { parseHtmlDocument } from '../HtmlDocumentModel';
+import { DomDiffNode, diffDocuments, restoreElementEdits } from '../DomDiff';
+import { applyEditsToText } from '../DomEdits';
+
+const backupHtml = [
+	'<div id="info">',
+	'    <div class="info-item" id="ip">IP</div>',
+	'    <div class="info-item" id="city">City</div>',
+	'    <div class="info-item" id="postal">Postal</div>',
+	'</div>',
+	'<footer title="old"></footer>',
+	''
+].join('\n');
+
+function describeDiff(nodes: DomDiffNode[]): string[] {
+	return nodes.map(node => {
+		const element = node.current || node.backup!;
+		return `${element.attributes.id || element.tagName}:${node.status}`;
+	});
+}
+
+suite('DomDiff Test Suite', () => {
+	test('Ignores re-indentation', () => {
+		const reindented = backupHtml.replace(/\n {4}/g, '\n\t');
+		const diff = diffDocuments(parseHtmlDocument(backupHtml), parseHtmlDocument(reindented));
+
+		assert.ok(diff.every(node => !node.hasChanges));
+	});
+
+	test('Marks added, removed, moved and changed elements', () => {
+		const current = [
+			'<div id="info">',
+			'    <div class="info-item" id="ip">IP</div>',
+			'    <div class="info-item" id="asn">ASN</div>',
+			'</div>',
+			'<footer title="new">',
+			'    <div class="info-item" id="postal">Postal</div>',
+			'</footer>',
+			''
+		].join('\n');
+		const diff = diffDocuments(parseHtmlDocument(backupHtml), parseHtmlDocument(current));
+
+		assert.deepStrictEqual(describeDiff(diff), ['info:unchanged', 'footer:changed']);
+		assert.ok(diff[0].hasChanges);
+		assert.deepStrictEqual(diff[1].changedAttributes, ['title']);
+		assert.deepStrictEqual(describeDiff(diff[0].children), ['ip:unchanged', 'city:removed', 'asn:added']);
+		assert.deepStrictEqual(describeDiff(diff[1].children), ['postal:moved']);
+	});
+
+	test('Restores a removed element next to its old sibling', () => {
+		const current = [
+			'<div id="info">',
+			'\t<div class="info-item" id="ip">IP</div>',
+			'\t<div class="info-item" id="postal">Postal</div>',
+			'</div>',
+			'<footer title="new"></footer>',
+			''
+		].join('\n');
+		const backup = parseHtmlDocument(backupHtml);
+		const model = parseHtmlDocument(current);
+		const diff = diffDocuments(backup, model);
+
+		const removed = diff[0].children.find(node => node.status === 'removed')!;
+		const restored = applyEditsToText(current, restoreElementEdits(backup, model, removed)!);
+		assert.strictEqual(restored, current.replace('IP</div>\n', 'IP</div>\n\t<div class="info-item" id="city">City</div>\n'));
+
+		const footer = applyEditsToText(current, restoreElementEdits(backup, model, diff[1])!);
+		assert.strictEqual(footer, current.replace('title="new"', 'title="old"'));
+	});
+});
@@ -0,0 +1,157 @@
+import * as assert from 'assert';
+import { parseHtmlDocument } from '../HtmlDocumentModel';
+import {
+	applyEditsToText,
+	attributeSpans,
+	dropPlacements,
+	duplicateElementEdits,
+	insertElementEdits,
+	moveElementEdits,
+	moveElementToEdits,
+	offsetMarkerEdits,
+	removeAttributeEdits,
+	removeElementEdits,
+	setAttributeEdits,
+	unwrapElementEdits
+} from '../DomEdits';
+
+const html = [
+	'<div id="grid">',
+	'    <div id="a" class="item">',
+	'        <span>A</span>',
+	'    </div>',
+	'    <div id="b" class="item"></div>',
+	'</div>',
+	''
+].join('\n');
+
+suite('DomEdits Test Suite', () => {
+	const model = parseHtmlDocument(html);
+	const grid = model.roots[0];
+	const [a, b] = grid.children;
+
+	test('Removes an element together with its line', () => {
+		assert.strictEqual(applyEditsToText(html, removeElementEdits(model, a)), [
+			'<div id="grid">',
+			'    <div id="b" class="item"></div>',
+			'</div>',
+			''
+		].join('\n'));
+	});
+
+	test('Unwraps an element and outdents its children', () => {
+		assert.strictEqual(applyEditsToText(html, unwrapElementEdits(model, a)!), [
+			'<div id="grid">',
+			'    <span>A</span>',
+			'    <div id="b" class="item"></div>',
+			'</div>',
+			''
+		].join('\n'));
+	});
+
+	test('Duplicates an element after itself', () => {
+		assert.strictEqual(applyEditsToText(html, duplicateElementEdits(model, b)), [
+			'<div id="grid">',
+			'    <div id="a" class="item">',
+			'        <span>A</span>',
+			'    </div>',
+			'    <div id="b" class="item"></div>',
+			'    <div id="b" class="item"></div>',
+			'</div>',
+			''
+		].join('\n'));
+	});
+
+	test('Moves an element among its siblings', () => {
+		const moved = applyEditsToText(html, moveElementEdits(model, b, 'up')!);
+		assert.ok(moved.indexOf('id="b"') < moved.indexOf('id="a"'));
+		assert.strictEqual(moveElementEdits(model, a, 'up'), undefined);
+		assert.strictEqual(moveElementEdits(model, b, 'down'), undefined);
+	});
+
+	test('Moves an element into another container with its indentation', () => {
+		const span = a.children[0];
+		assert.strictEqual(applyEditsToText(html, moveElementToEdits(model, span, b, 'lastChild')!), [
+			'<div id="grid">',
+			'    <div id="a" class="item">',
+			'    </div>',
+			'    <div id="b" class="item">',
+			'        <span>A</span>',
+			'    </div>',
+			'</div>',
+			''
+		].join('\n'));
+	});
+
+	test('Drops an element into an adjacent sibling container', () => {
+		assert.deepStrictEqual(dropPlacements(a, b), ['lastChild', 'after', 'before']);
+		assert.deepStrictEqual(dropPlacements(b, a), ['lastChild', 'before', 'after']);
+		assert.deepStrictEqual(dropPlacements(a.children[0], b), ['lastChild']);
+
+		assert.strictEqual(applyEditsToText(html, moveElementToEdits(model, a, b, dropPlacements(a, b)[0])!), [
+			'<div id="grid">',
+			'    <div id="b" class="item">',
+			'        <div id="a" class="item">',
+			'            <span>A</span>',
+			'        </div>',
+			'    </div>',
+			'</div>',
+			''
+		].join('\n'));
+	});
+
+	test('Refuses to move an element into itself or a descendant', () => {
+		assert.strictEqual(moveElementToEdits(model, grid, a, 'lastChild'), undefined);
+		assert.strictEqual(moveElementToEdits(model, a, a, 'before'), undefined);
+	});
+
+	test('Edits attributes with minimal text changes', () => {
+		const tag = '<input id=name data-x=\'1\' disabled class="a b">';
+		const tagModel = parseHtmlDocument(tag);
+		const input = tagModel.roots[0];
+
+		assert.deepStrictEqual(attributeSpans(tagModel, input).map(span => span.name), ['id', 'data-x', 'disabled', 'class']);
+		assert.strictEqual(applyEditsToText(tag, setAttributeEdits(tagModel, input, 'class', 'a "b"')), '<input id=name data-x=\'1\' disabled class="a &quot;b&quot;">');
+		assert.strictEqual(applyEditsToText(tag, setAttributeEdits(tagModel, input, 'id', 'other')), '<input id="other" data-x=\'1\' disabled class="a b">');
+		assert.strictEqual(applyEditsToText(tag, setAttributeEdits(tagModel, input, 'aria-label', 'Name')), '<input id=name data-x=\'1\' disabled class="a b" aria-label="Name">');
+		assert.strictEqual(applyEditsToText(tag, removeAttributeEdits(tagModel, input, 'disabled')!), '<input id=name data-x=\'1\' class="a b">');
+		assert.strictEqual(removeAttributeEdits(tagModel, input, 'title'), undefined);
+	});
+
+	test('Inserts markup indented for each placement', () => {
+		const markup = '<p id="new">\n    <b>x</b>\n</p>';
+		assert.strictEqual(applyEditsToText(html, insertElementEdits(model, a, 'firstChild', markup)!), [
+			'<div id="grid">',
+			'    <div id="a" class="item">',
+			'        <p id="new">',
+			'            <b>x</b>',
+			'        </p>',
+			'        <span>A</span>',
+			'    </div>',
+			'    <div id="b" class="item"></div>',
+			'</div>',
+			''
+		].join('\n'));
+		assert.strictEqual(applyEditsToText(html, insertElementEdits(model, b, 'lastChild', '<i></i>')!), [
+			'<div id="grid">',
+			'    <div id="a" class="item">',
+			'        <span>A</span>',
+			'    </div>',
+			'    <div id="b" class="item">',
+			'        <i></i>',
+			'    </div>',
+			'</div>',
+			''
+		].join('\n'));
+		assert.ok(applyEditsToText(html, insertElementEdits(model, b, 'before', '<hr>')!).includes('    <hr>\n    <div id="b"'));
+	});
+
+	test('Marks rendered elements with their source offset', () => {
+		const page = '<html><head><title>T</title></head><body><br/><p class="x">Hi</p></body></html>';
+		const pageModel = parseHtmlDocument(page);
+		assert.strictEqual(
+			applyEditsToText(page, offsetMarkerEdits(pageModel, 'data-offset')),
+			'<html data-offset="0"><head><title>T</title></head><body data-offset="35"><br data-offset="41"/><p class="x" data-offset="46">Hi</p></body></html>'
+		);
+	});
+});
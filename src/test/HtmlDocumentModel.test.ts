@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { parseHtmlDocument } from '../HtmlDocumentModel';
+
+suite('HtmlDocumentModel Test Suite', () => {
+	test('Tracks exact element ranges and parent links', () => {
+		const html = '<div id="outer" class="card hidden"><span id="inner">Hi</span><br></div>';
+		const model = parseHtmlDocument(html);
+
+		assert.strictEqual(model.roots.length, 1);
+		const outer = model.roots[0];
+		assert.strictEqual(outer.start, 0);
+		assert.strictEqual(outer.end, html.length);
+		assert.deepStrictEqual(outer.attributes, { id: 'outer', class: 'card hidden' });
+
+		const [inner, br] = outer.children;
+		assert.strictEqual(html.substring(inner.start, inner.end), '<span id="inner">Hi</span>');
+		assert.strictEqual(html.substring(inner.startTagEnd, inner.endTagStart), 'Hi');
+		assert.strictEqual(inner.parent, outer);
+		assert.strictEqual(br.isVoid, true);
+		assert.strictEqual(html.substring(br.start, br.end), '<br>');
+	});
+
+	test('Pairs end tags written in another case than the start tag', () => {
+		const html = '<section><DIV class="card">x</div><P>y</p></section>';
+		const model = parseHtmlDocument(html);
+
+		const [div, p] = model.roots[0].children;
+		assert.strictEqual(html.substring(div.start, div.end), '<DIV class="card">x</div>');
+		assert.strictEqual(html.substring(div.startTagEnd, div.endTagStart), 'x');
+		assert.strictEqual(html.substring(p.start, p.end), '<P>y</p>');
+		assert.strictEqual(model.roots[0].end, html.length);
+		assert.strictEqual(parseHtmlDocument('<DIV>x</div>').roots[0].end, 12);
+	});
+
+	test('Ignores tags inside comments, scripts and attribute values', () => {
+		const html = '<main data-x="a>b"><!-- <p>old</p> --><script>if (a < b) { s = "</div>"; }</script></main>';
+		const model = parseHtmlDocument(html);
+
+		const main = model.roots[0];
+		assert.strictEqual(main.attributes['data-x'], 'a>b');
+		assert.strictEqual(main.startTagEnd, '<main data-x="a>b">'.length);
+		assert.deepStrictEqual(main.children.map(child => child.tagName), ['script']);
+		assert.strictEqual(main.end, html.length);
+		assert.strictEqual(model.reliable, true);
+	});
+
+	test('Tells when the parser lost track of unclosed elements', () => {
+		// The parser drops the body and the second paragraph, or only the second paragraph
+		assert.strictEqual(parseHtmlDocument('<html><body><p>a<p>b</body></html>').reliable, false);
+		assert.strictEqual(parseHtmlDocument('<body><p>a</p><p>b</body>').reliable, false);
+
+		// Elements closed implicitly by a sibling or their parent are kept with the right ranges
+		const list = parseHtmlDocument('<ul><li>a<li>b</ul>');
+		assert.strictEqual(list.reliable, true);
+		assert.deepStrictEqual(list.allElements().map(node => [node.tagName, node.start, node.end]), [['ul', 0, 19], ['li', 4, 9], ['li', 9, 14]]);
+		assert.strictEqual(parseHtmlDocument('<div><p>x</div>').reliable, true);
+	});
+
+	test('Finds the innermost element at an offset', () => {
+		const html = '<ul><li id="a">one</li><li id="b">two</li></ul>';
+		const model = parseHtmlDocument(html);
+
+		assert.strictEqual(model.elementAt(html.indexOf('two'))?.attributes.id, 'b');
+		assert.strictEqual(model.elementAt(1)?.tagName, 'ul');
+		assert.strictEqual(model.elementAt(html.length), undefined);
+	});
+
+	test('Maps CSS selector matches back to model elements', () => {
+		const html = '<section id="s"><div class="info-item"><span id="v"></span></div><span id="other"></span></section>';
+		const model = parseHtmlDocument(html);
+
+		const matches = model.querySelectorAll('.info-item > span');
+		assert.deepStrictEqual(matches.map(node => node.attributes.id), ['v']);
+		assert.strictEqual(matches[0].parent?.attributes.class, 'info-item');
+		assert.throws(() => model.querySelectorAll('span['));
+	});
+
+	test('Keeps non-blank text and comments as element contents', () => {
+		const html = '<main>\n  <!-- IP Address Section -->\n  <p id="t">Getting your IP address...</p>\n</main>';
+		const model = parseHtmlDocument(html);
+
+		const main = model.roots[0];
+		assert.deepStrictEqual(main.contents.map(content => [content.kind, content.text]), [['comment', ' IP Address Section ']]);
+		assert.strictEqual(html.substring(main.contents[0].start, main.contents[0].end), '<!-- IP Address Section -->');
+		assert.strictEqual(main.children[0].contents[0].text, 'Getting your IP address...');
+	});
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { addIpDetails, currentIpEntries, describeIpEntry, isIpStale, recordIpObservation } from '../IpHistory';
+
+suite('IpHistory Test Suite', () => {
+	const at = (time: string) => new Date(`2024-05-01T${time}:00.000Z`);
+
+	test('Extends the current entry while the address stays the same', () => {
+		let recorded = recordIpObservation([], { details: { ip: '203.0.113.7' }, provider: 'ipify', time: at('08:00') }, 10);
+		assert.strictEqual(recorded.changedFrom, undefined);
+
+		recorded = recordIpObservation(recorded.entries, { details: { ip: '203.0.113.7', city: 'Berlin' }, provider: 'ipify', time: at('09:00') }, 10);
+		assert.strictEqual(recorded.changedFrom, undefined);
+		assert.deepStrictEqual(recorded.entries, [{
+			ip: '203.0.113.7',
+			firstSeen: '2024-05-01T08:00:00.000Z',
+			lastSeen: '2024-05-01T09:00:00.000Z',
+			city: 'Berlin',
+			provider: 'ipify'
+		}]);
+	});
+
+	test('Reports a changed address and keeps the history to its limit', () => {
+		let entries = recordIpObservation([], { details: { ip: '192.0.2.1' }, provider: 'ipify', time: at('08:00') }, 2).entries;
+		entries = recordIpObservation(entries, { details: { ip: '192.0.2.2' }, provider: 'ipify', time: at('09:00') }, 2).entries;
+		const recorded = recordIpObservation(entries, { details: { ip: '192.0.2.3' }, provider: 'ipinfo.io', time: at('10:00') }, 2);
+
+		assert.strictEqual(recorded.changedFrom?.ip, '192.0.2.2');
+		assert.deepStrictEqual(recorded.entries.map(entry => entry.ip), ['192.0.2.3', '192.0.2.2']);
+	});
+
+	test('Follows the IPv4 and IPv6 addresses separately', () => {
+		let entries = recordIpObservation([], { details: { ip: '192.0.2.1' }, provider: 'ipify', time: at('08:00') }, 2).entries;
+		let recorded = recordIpObservation(entries, { details: { ip: '2001:db8::1' }, provider: 'ipify', time: at('08:00') }, 2);
+		assert.strictEqual(recorded.changedFrom, undefined);
+
+		entries = recordIpObservation(recorded.entries, { details: { ip: '192.0.2.1' }, provider: 'ipify', time: at('09:00') }, 2).entries;
+		recorded = recordIpObservation(entries, { details: { ip: '2001:db8::2' }, provider: 'ipify', time: at('09:00') }, 2);
+		assert.strictEqual(recorded.changedFrom?.ip, '2001:db8::1');
+		// The limit drops the old IPv6 address, not the current IPv4 one
+		assert.deepStrictEqual(recorded.entries.map(entry => entry.ip), ['2001:db8::2', '192.0.2.1']);
+		assert.deepStrictEqual(currentIpEntries(recorded.entries).map(entry => [entry.ip, entry.lastSeen]), [
+			['192.0.2.1', '2024-05-01T09:00:00.000Z'],
+			['2001:db8::2', '2024-05-01T09:00:00.000Z']
+		]);
+	});
+
+	test('Adds details only to the current address', () => {
+		const entries = recordIpObservation([], { details: { ip: '192.0.2.1' }, provider: 'ipify', time: at('08:00') }, 10).entries;
+
+		assert.strictEqual(addIpDetails(entries, { ip: '198.51.100.1', city: 'Lyon' }), entries);
+		const updated = addIpDetails(entries, { ip: '192.0.2.1', city: 'Lyon', country: 'FR', org: 'Example ISP' });
+		assert.strictEqual(describeIpEntry(updated[0]), 'Lyon, FR · Example ISP');
+	});
+
+	test('Tells when the address was not confirmed for too long', () => {
+		const [entry] = recordIpObservation([], { details: { ip: '192.0.2.1' }, provider: 'ipify', time: at('08:00') }, 10).entries;
+
+		assert.ok(!isIpStale(entry, at('08:30'), 30));
+		assert.ok(isIpStale(entry, at('08:31'), 30));
+	});
+});
@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { CustomJsonProvider, IpLookupError, IpifyProvider, IpinfoProvider, lookupDualStack, lookupIpDetails, mergePublicAddresses } from '../IpLookup';
+
+type StubHandler = (request: http.IncomingMessage, response: http.ServerResponse) => void;
+
+// A local HTTP server standing in for the lookup services; `handle` answers the current test's requests
+suite('IpLookup Test Suite', () => {
+	let server: http.Server;
+	let baseUrl: string;
+	let handle: StubHandler;
+	let requests: string[];
+
+	suiteSetup(async () => {
+		server = http.createServer((request, response) => {
+			requests.push(request.url || '');
+			handle(request, response);
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	suiteTeardown(() => {
+		server.closeAllConnections();
+		server.close();
+	});
+
+	setup(() => {
+		requests = [];
+	});
+
+	const json = (status: number, body: unknown): StubHandler => (_request, response) => {
+		response.writeHead(status, { 'Content-Type': 'application/json' });
+		response.end(JSON.stringify(body));
+	};
+
+	test('Looks up the own address and the details of an address', async () => {
+		handle = (request, response) => json(200, request.url === '/?format=json'
+			? { ip: '203.0.113.7' }
+			: { ip: '203.0.113.7', city: 'Berlin', country: 'DE', loc: '52.52,13.40' })(request, response);
+
+		assert.deepStrictEqual(await new IpifyProvider(baseUrl).lookup(undefined, 1000), { ip: '203.0.113.7' });
+		assert.deepStrictEqual(
+			await new IpinfoProvider(`${baseUrl}/`).lookup('203.0.113.7', 1000),
+			{ ip: '203.0.113.7', city: 'Berlin', country: 'DE', loc: '52.52,13.40' }
+		);
+		assert.deepStrictEqual(requests, ['/?format=json', '/203.0.113.7/json']);
+	});
+
+	test('Maps the fields of a custom endpoint', async () => {
+		handle = json(200, { query: '198.51.100.1', location: { city: 'Lyon', country_code: 'FR' }, isp: 'Example ISP' });
+		const provider = new CustomJsonProvider(`${baseUrl}/lookup/{ip}/json`, {
+			ip: 'query',
+			city: 'location.city',
+			country: 'location.country_code',
+			org: 'isp'
+		});
+
+		assert.deepStrictEqual(
+			await provider.lookup(undefined, 1000),
+			{ ip: '198.51.100.1', city: 'Lyon', country: 'FR', org: 'Example ISP' }
+		);
+		await provider.lookup('198.51.100.1', 1000);
+		assert.deepStrictEqual(requests, ['/lookup/json', '/lookup/198.51.100.1/json']);
+	});
+
+	test('Retries passing failures and classifies the last one', async () => {
+		let attempts = 0;
+		handle = (request, response) => json(++attempts < 3 ? 503 : 200, { ip: '192.0.2.1' })(request, response);
+		const options = { timeoutMs: 1000, retries: 2, retryDelayMs: 1 };
+
+		assert.strictEqual((await lookupIpDetails(new IpifyProvider(baseUrl), undefined, options)).ip, '192.0.2.1');
+		assert.strictEqual(attempts, 3);
+
+		handle = json(429, {});
+		await assert.rejects(lookupIpDetails(new IpifyProvider(baseUrl), undefined, options), (error: IpLookupError) =>
+			error.kind === 'rateLimited' && error.status === 429);
+		assert.strictEqual(requests.length, 3 + 3);
+	});
+
+	test('Does not retry errors that would happen again', async () => {
+		handle = json(200, { message: 'no address here' });
+		await assert.rejects(
+			lookupIpDetails(new IpifyProvider(baseUrl), undefined, { timeoutMs: 1000, retries: 2, retryDelayMs: 1 }),
+			(error: IpLookupError) => error.kind === 'invalidResponse'
+		);
+		assert.strictEqual(requests.length, 1);
+
+		await assert.rejects(new IpifyProvider(baseUrl).lookup('192.0.2.1', 1000), (error: IpLookupError) => error.kind === 'unsupported');
+	});
+
+	test('Gives up on services that do not answer in time', async () => {
+		handle = (request, response) => setTimeout(() => json(200, { ip: '192.0.2.1' })(request, response), 500);
+		await assert.rejects(new IpifyProvider(baseUrl).lookup(undefined, 50), (error: IpLookupError) => error.kind === 'timeout');
+	});
+
+	test('Holds lookups to the requested IP version', async () => {
+		handle = json(200, { ip: '203.0.113.7' });
+		// The stub only listens on IPv4, so `localhost` is only reachable over IPv4
+		const localhostUrl = baseUrl.replace('127.0.0.1', 'localhost');
+
+		assert.strictEqual((await new IpifyProvider(localhostUrl).lookup(undefined, 1000, 'IPv4')).ip, '203.0.113.7');
+		await assert.rejects(new IpifyProvider(localhostUrl).lookup(undefined, 1000, 'IPv6'), (error: IpLookupError) =>
+			error.kind === 'network' || error.kind === 'unsupported');
+		assert.strictEqual(requests.length, 1);
+	});
+
+	test('Tells missing IPv6 connectivity apart from failed lookups', async () => {
+		const found = (ip: string) => () => Promise.resolve({ details: { ip } });
+		const failed = (kind: 'network' | 'http' | 'wrongFamily') => () => Promise.reject(new IpLookupError(kind, 'ipify'));
+
+		const ipv4Only = await lookupDualStack({ IPv4: found('203.0.113.7'), IPv6: failed('network') });
+		assert.ok(ipv4Only.IPv4.ok);
+		assert.ok(!ipv4Only.IPv6.ok && ipv4Only.IPv6.noConnectivity);
+
+		const serverError = await lookupDualStack({ IPv4: found('203.0.113.7'), IPv6: failed('http') });
+		assert.ok(!serverError.IPv6.ok && !serverError.IPv6.noConnectivity);
+
+		const wrongFamily = await lookupDualStack({ IPv4: found('203.0.113.7'), IPv6: failed('wrongFamily') });
+		assert.ok(!wrongFamily.IPv6.ok && !wrongFamily.IPv6.noConnectivity);
+
+		const offline = await lookupDualStack({ IPv4: failed('network'), IPv6: failed('network') });
+		assert.ok(!offline.IPv4.ok && !offline.IPv4.noConnectivity);
+		assert.ok(!offline.IPv6.ok && !offline.IPv6.noConnectivity);
+
+		const stored = { ipv4: '192.0.2.1', ipv6: '2001:db8::1', ipv6Connectivity: true, lastChecked: null };
+		const time = new Date('2024-05-01T08:00:00.000Z');
+		assert.deepStrictEqual(mergePublicAddresses(stored, ipv4Only, time), {
+			ipv4: '203.0.113.7', ipv6: null, ipv6Connectivity: false, lastChecked: '2024-05-01T08:00:00.000Z'
+		});
+		assert.deepStrictEqual(mergePublicAddresses(stored, serverError, time), {
+			ipv4: '203.0.113.7', ipv6: '2001:db8::1', ipv6Connectivity: true, lastChecked: '2024-05-01T08:00:00.000Z'
+		});
+	});
+});
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import { InspectedSetting, Snapshot, SnapshotIndex, SnapshotStorage, fileKeyOf, findLegacyBackups, hashContent, selectSnapshotsToPrune } from '../Snapshots';
+
+function snapshot(id: string, timestamp: string, relativePath = 'who_am_i.html'): Snapshot {
+	return { id, folderUri: 'file:///workspace', relativePath, hash: hashContent(id), timestamp, size: 0 };
+}
+
+// Storage files by path, in memory
+function memoryStorage(files: Map<string, string>): SnapshotStorage {
+	return {
+		readFile: async (path) => files.get(path),
+		writeFile: async (path, text) => {
+			files.set(path, text);
+		},
+		rename: async (from, to) => {
+			files.set(to, files.get(from)!);
+			files.delete(from);
+		},
+		readDirectory: async (path) => [...files.keys()]
+			.filter(name => path ? name.startsWith(`${path}/`) : !name.includes('/'))
+			.map(name => name.substring(path ? path.length + 1 : 0)),
+		delete: async (path) => {
+			files.delete(path);
+		}
+	};
+}
+
+suite('Snapshots Test Suite', () => {
+	test('Hashes content by value', () => {
+		assert.strictEqual(hashContent('<p>Hi</p>'), hashContent('<p>Hi</p>'));
+		assert.notStrictEqual(hashContent('<p>Hi</p>'), hashContent('<p>Hi</p>\n'));
+		assert.match(hashContent(''), /^[0-9a-f]{64}$/);
+	});
+
+	test('Tells files with the same name apart', () => {
+		assert.notStrictEqual(
+			fileKeyOf(snapshot('a', '2024-01-01T00:00:00.000Z', 'who_am_i.html')),
+			fileKeyOf(snapshot('b', '2024-01-01T00:00:00.000Z', 'who_am_i_workspace/who_am_i.html'))
+		);
+	});
+
+	test('Prunes the oldest snapshots but keeps the original', () => {
+		const snapshots = [
+			snapshot('third', '2024-01-03T00:00:00.000Z'),
+			snapshot('original', '2024-01-01T00:00:00.000Z'),
+			snapshot('fourth', '2024-01-04T00:00:00.000Z'),
+			snapshot('second', '2024-01-02T00:00:00.000Z')
+		];
+
+		assert.deepStrictEqual(selectSnapshotsToPrune(snapshots, 2).map(item => item.id), ['second', 'third']);
+		assert.deepStrictEqual(selectSnapshotsToPrune(snapshots, 4), []);
+		assert.deepStrictEqual(selectSnapshotsToPrune(snapshots, 1).map(item => item.id), ['second', 'third']);
+	});
+
+	test('Deletes contents no snapshot refers to', async () => {
+		const files = new Map([[`contents/${hashContent('original')}`, 'x'], [`contents/${hashContent('removed')}`, 'x']]);
+		const index = new SnapshotIndex(memoryStorage(files));
+
+		assert.deepStrictEqual(await index.load(), []);
+		await index.save([snapshot('original', '2024-01-01T00:00:00.000Z')]);
+		assert.deepStrictEqual([...files.keys()].sort(), [`contents/${hashContent('original')}`, 'index.json'].sort());
+	});
+
+	test('Sets a damaged index aside and keeps the contents it may refer to', async () => {
+		for (const damaged of ['{"snapshots": [', '{}']) {
+			const contents = [`contents/${hashContent('original')}`, `contents/${hashContent('second')}`];
+			const files = new Map([['index.json', damaged], ...contents.map((name): [string, string] => [name, 'x'])]);
+
+			assert.deepStrictEqual(await new SnapshotIndex(memoryStorage(files)).load(), []);
+			const setAside = [...files.keys()].find(name => name.startsWith('index.corrupt-'));
+			assert.strictEqual(setAside && files.get(setAside), damaged);
+
+			// Neither this session nor the next one prunes while the damaged index is still there
+			await new SnapshotIndex(memoryStorage(files)).save([snapshot('new', '2024-01-03T00:00:00.000Z')]);
+			const next = new SnapshotIndex(memoryStorage(files));
+			await next.save(await next.load());
+			assert.ok(contents.every(name => files.has(name)));
+		}
+	});
+
+	test('Reads the backups kept in workspace and folder settings', () => {
+		// What inspect() reports for the dotted keys the old versions wrote
+		const settings: Record<string, InspectedSetting> = {
+			'backup_who_am_i.html': { workspaceValue: '<p>original</p>' },
+			'backup_who_am_i.html_timestamp': { workspaceValue: '2024-01-01T00:00:00.000Z' },
+			'backup_who_am_i.css': { workspaceValue: 'p {}', workspaceFolderValue: 'body {}' },
+			'backup_who_am_i.js_timestamp': { workspaceFolderValue: '2024-01-02T00:00:00.000Z' }
+		};
+		const legacy = findLegacyBackups(['who_am_i.html', 'who_am_i.css', 'who_am_i.js'], key => settings[key]);
+
+		assert.deepStrictEqual(legacy.backups, [
+			{ fileName: 'who_am_i.html', content: '<p>original</p>', timestamp: '2024-01-01T00:00:00.000Z' },
+			{ fileName: 'who_am_i.css', content: 'body {}' }
+		]);
+		assert.deepStrictEqual(legacy.settings, [
+			{ key: 'backup_who_am_i.html', level: 'workspace' },
+			{ key: 'backup_who_am_i.html_timestamp', level: 'workspace' },
+			{ key: 'backup_who_am_i.css', level: 'workspaceFolder' },
+			{ key: 'backup_who_am_i.css', level: 'workspace' },
+			{ key: 'backup_who_am_i.js_timestamp', level: 'workspaceFolder' }
+		]);
+	});
+});
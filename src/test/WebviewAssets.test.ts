@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { parseHtmlDocument } from '../HtmlDocumentModel';
+import { findAssetReferences, findCssReferences, isLocalReference, splitReference } from '../WebviewAssets';
+
+suite('WebviewAssets Test Suite', () => {
+	test('Finds stylesheet, script, image and inline style references', () => {
+		const page = [
+			'<html><head>',
+			'<link rel="stylesheet" href="css/site.css?v=2">',
+			'<link rel="canonical" href="https://example.com/">',
+			'<style>body { background: url(\'img/bg.png\'); }</style>',
+			'</head><body>',
+			'<a href="other.html">Other</a>',
+			'<img src=logo.svg srcset="logo.png 1x, logo@2x.png 2x">',
+			'<div style="background-image: url(\'x.png\')"></div>',
+			'<script src="app.js"></script>',
+			'</body></html>'
+		].join('\n');
+		const references = findAssetReferences(parseHtmlDocument(page));
+
+		assert.deepStrictEqual(references.map(reference => reference.url), [
+			'css/site.css?v=2',
+			'https://example.com/',
+			'img/bg.png',
+			'logo.svg',
+			'logo.png',
+			'logo@2x.png',
+			'x.png',
+			'app.js'
+		]);
+		for (const reference of references) {
+			assert.strictEqual(page.substring(reference.start, reference.end), reference.url);
+		}
+	});
+
+	test('Finds url() and @import references in stylesheets', () => {
+		const css = '@import "base.css";\n@font-face { src: url(fonts/a.woff2) format("woff2"), url( "fonts/a.ttf" ); }';
+		assert.deepStrictEqual(findCssReferences(css, 10).map(reference => [reference.url, reference.start]), [
+			['base.css', 19],
+			['fonts/a.woff2', 52],
+			['fonts/a.ttf', 90]
+		]);
+	});
+
+	test('Tells local references apart and splits off queries', () => {
+		assert.ok(isLocalReference('who_am_i.css'));
+		assert.ok(isLocalReference('../shared/logo.png'));
+		assert.ok(isLocalReference('/assets/app.js'));
+		assert.ok(!isLocalReference('https://api.ipify.org'));
+		assert.ok(!isLocalReference('//cdn.example.com/x.js'));
+		assert.ok(!isLocalReference('data:image/png;base64,AAAA'));
+		assert.ok(!isLocalReference('#section'));
+		assert.deepStrictEqual(splitReference('site.css?v=2#top'), { path: 'site.css', suffix: '?v=2#top' });
+		assert.deepStrictEqual(splitReference('site.css'), { path: 'site.css', suffix: '' });
+	});
+});
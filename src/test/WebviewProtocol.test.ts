@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { MessageRouter, PROTOCOL_VERSION, ProtocolError, createEvent, parseRequest } from '../WebviewProtocol';
+
+function request(id: number, command: string, params?: unknown) {
+	return { type: 'request', protocolVersion: PROTOCOL_VERSION, id, command, params };
+}
+
+suite('WebviewProtocol Test Suite', () => {
+	const router = new MessageRouter<{ sender: string }>()
+		.register('getStoredIpAddress', () => ({ ipAddress: '203.0.113.7' }))
+		.register('saveIpAddress', ({ ipAddress }, { sender }) => {
+			if (sender === 'readonly') {
+				throw new Error('Settings are read-only');
+			}
+			return { ipAddress };
+		});
+
+	test('Answers the handshake and requests with the same id', async () => {
+		assert.deepStrictEqual(await router.handle(request(1, 'hello', { protocolVersion: PROTOCOL_VERSION }), { sender: 'page' }), {
+			type: 'response', id: 1, ok: true, result: { protocolVersion: PROTOCOL_VERSION }
+		});
+		assert.deepStrictEqual(await router.handle(request(2, 'getStoredIpAddress'), { sender: 'page' }), {
+			type: 'response', id: 2, ok: true, result: { ipAddress: '203.0.113.7' }
+		});
+	});
+
+	test('Replies with an error code for bad requests', async () => {
+		const errorCode = async (message: unknown, sender = 'page') => {
+			const response = await router.handle(message, { sender });
+			return response.ok ? undefined : response.error.code;
+		};
+
+		assert.strictEqual(await errorCode({ command: 'saveIpAddress', ipAddress: '1.2.3.4' }), 'invalidMessage');
+		assert.strictEqual(await errorCode({ ...request(3, 'getStoredIpAddress'), protocolVersion: PROTOCOL_VERSION + 1 }), 'unsupportedVersion');
+		assert.strictEqual(await errorCode(request(4, 'hello', { protocolVersion: PROTOCOL_VERSION + 1 })), 'unsupportedVersion');
+		assert.strictEqual(await errorCode(request(5, 'exportResults')), 'unknownCommand');
+		assert.strictEqual(await errorCode(request(6, 'revealElement', { offset: 3 })), 'unknownCommand');
+		assert.strictEqual(await errorCode(request(7, 'saveIpAddress', { ipAddress: 42 })), 'invalidParams');
+		assert.strictEqual(await errorCode(request(8, 'saveIpAddress', { ipAddress: '1.2.3.4' }), 'readonly'), 'commandFailed');
+	});
+
+	test('Validates the envelope and builds events', () => {
+		assert.throws(() => parseRequest('hello'), (error: unknown) => error instanceof ProtocolError && error.code === 'invalidMessage');
+		assert.strictEqual(parseRequest(request(9, 'hello')).id, 9);
+		assert.deepStrictEqual(createEvent('highlightElement', { offset: 12 }), { type: 'event', event: 'highlightElement', data: { offset: 12 } });
+	});
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { buildContentSecurityPolicy, createNonce, isValidOrigin } from '../WebviewSecurity';
+
+suite('WebviewSecurity Test Suite', () => {
+	test('Builds a policy that only runs nonce-tagged scripts', () => {
+		const policy = buildContentSecurityPolicy({
+			cspSource: 'https://file+.vscode-resource.vscode-cdn.net',
+			nonce: 'abc123',
+			connectOrigins: ['https://api.ipify.org', 'https://ipinfo.io'],
+			extraOrigins: ['https://api.example.com']
+		});
+
+		assert.strictEqual(policy, [
+			`default-src 'none'`,
+			`script-src 'nonce-abc123'`,
+			`style-src https://file+.vscode-resource.vscode-cdn.net 'nonce-abc123' https://api.example.com`,
+			`img-src https://file+.vscode-resource.vscode-cdn.net data: https://api.example.com`,
+			`font-src https://file+.vscode-resource.vscode-cdn.net https://api.example.com`,
+			`connect-src https://api.ipify.org https://ipinfo.io https://api.example.com`
+		].join('; '));
+	});
+
+	test('Accepts only plain origins', () => {
+		assert.ok(isValidOrigin('https://api.example.com'));
+		assert.ok(isValidOrigin('http://localhost:8080'));
+		assert.ok(isValidOrigin('wss://events.example.com'));
+		assert.ok(!isValidOrigin('api.example.com'));
+		assert.ok(!isValidOrigin('https://example.com/path'));
+		assert.ok(!isValidOrigin(`https://example.com; script-src 'unsafe-inline'`));
+	});
+
+	test('Creates a different nonce every time', () => {
+		assert.notStrictEqual(createNonce(), createNonce());
+		assert.ok(createNonce().length >= 16);
+	});
+});
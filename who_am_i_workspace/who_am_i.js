@@ -31,25 +31,27 @@ class WhoAmI {
         }
     }
 
-    // Step 2.1 & 2.2: Get public IP address using IPify API
+    // Step 2.1 & 2.2: Get public IP addresses using IPify API
     async getIpAddress() {
         try {
             this.showLoading('ip');
             this.hideError();
 
-            // TODO: Implement IPify API call
-            // For now, using a simple fetch to IPify API
-            const response = await fetch('https://api.ipify.org?format=json');
-            
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-            }
+            // api.ipify.org only answers over IPv4 and api6.ipify.org only over IPv6,
+            // so asking both in parallel finds both addresses of a dual-stack connection
+            const [ipv4, ipv6] = await Promise.allSettled([
+                this.fetchIpAddress('https://api.ipify.org?format=json'),
+                this.fetchIpAddress('https://api6.ipify.org?format=json')
+            ]);
 
-            const data = await response.json();
-            this.ipAddress = data.ip;
+            if (ipv4.status === 'rejected' && ipv6.status === 'rejected') {
+                throw ipv4.reason;
+            }
+            this.ipAddress = ipv4.status === 'fulfilled' ? ipv4.value : ipv6.value;
 
             this.hideLoading('ip');
-            this.displayIpAddress(this.ipAddress);
+            this.displayIpAddress(this.describeLookup(ipv4, 'IPv4'));
+            this.displayIpv6Address(this.describeLookup(ipv6, 'IPv6'));
             this.showDetailsSection();
 
         } catch (error) {
@@ -59,6 +61,26 @@ class WhoAmI {
         }
     }
 
+    async fetchIpAddress(url) {
+        const response = await fetch(url);
+
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        return data.ip;
+    }
+
+    // fetch() only rejects with a TypeError when it cannot reach the service at all,
+    // which for a single IP version means there is no connectivity over it
+    describeLookup(result, family) {
+        if (result.status === 'fulfilled') {
+            return result.value;
+        }
+        return result.reason instanceof TypeError ? `No ${family} connectivity` : `${family} lookup failed`;
+    }
+
     // Step 2.3 & 2.4: Get additional details using IPinfo API
     async getLocationDetails() {
         if (!this.ipAddress) {
@@ -105,6 +127,11 @@ class WhoAmI {
         }
     }
 
+    // Display the IPv6 address, or why there is none
+    displayIpv6Address(text) {
+        this.updateElement('ipv6-address', text);
+    }
+
     // Display location details (Step 2.4)
     displayLocationDetails(data) {
         const detailsDisplay = document.getElementById('details-display');
@@ -216,6 +243,7 @@ class WhoAmI {
         
         // Clear displayed values
         this.updateElement('ip-address', '');
+        this.updateElement('ipv6-address', '');
         this.updateElement('city-value', '');
         this.updateElement('region-value', '');
         this.updateElement('country-value', '');